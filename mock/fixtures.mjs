@@ -0,0 +1,333 @@
+/**
+ * Seeded fixtures for the mock Loyverse API.
+ * Each bearer token gets its own deterministic dataset, so different
+ * restaurants return different (but repeatable) numbers.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RECEIPT_DAYS = 45;
+const LAPSED_CUSTOMERS = 5;
+const LAPSED_AFTER_DAYS = 30;
+
+/**
+ * Small deterministic PRNG (mulberry32) seeded from a string
+ */
+function createRandom(seedText) {
+  let seed = 0;
+  for (const char of seedText) {
+    seed = (Math.imul(seed, 31) + char.charCodeAt(0)) | 0;
+  }
+
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function uuid(random) {
+  const hex = () => Math.floor(random() * 16).toString(16);
+  const part = (n) => Array.from({ length: n }, hex).join("");
+  return `${part(8)}-${part(4)}-4${part(3)}-a${part(3)}-${part(12)}`;
+}
+
+function round2(value) {
+  return Math.round(value * 100) / 100;
+}
+
+const SUPPLIERS = ["Metro Poultry Supply", "Manila Noodle Co.", "Bean & Leaf Trading", "QC Dry Goods"];
+
+const MENU = [
+  { category: "Wings", supplier: 0, items: [["Korean Garlic Wings", 289], ["Buffalo Wings", 269], ["Honey Butter Wings", 279]] },
+  { category: "Ramen", supplier: 1, items: [["Tonkotsu Ramen", 349], ["Shoyu Ramen", 319], ["Spicy Miso Ramen", 359]] },
+  { category: "Drinks", supplier: 2, items: [["Iced Tea", 79], ["Cold Brew", 149], ["Matcha Latte", 169]] },
+  { category: "Sides", supplier: 3, items: [["Garlic Rice", 59], ["Fries", 99], ["Gyoza", 159]] },
+];
+
+const PAYMENT_TYPES = [
+  ["Cash", "CASH"],
+  ["Card", "NONINTEGRATEDCARD"],
+  ["GCash", "OTHER"],
+];
+
+const DINING_OPTIONS = ["Dine in", "Takeout", "Delivery"];
+
+// Free modifiers added to every line of a category: [modifier, option]
+const MODIFIERS = {
+  Ramen: ["Noodles", "Firm"],
+  Drinks: ["Ice", "Less ice"],
+};
+
+const VAT_RATE = 12; // included in prices
+
+/**
+ * Build the full dataset for one token
+ */
+export function buildFixtures(token, now = Date.now()) {
+  const random = createRandom(token);
+  const pick = (list) => list[Math.floor(random() * list.length)];
+  const createdAt = new Date(now - 365 * DAY_MS).toISOString();
+
+  const merchant = {
+    id: uuid(random),
+    business_name: `Mock Merchant ${token}`,
+    name: `Mock Merchant ${token}`,
+    email: "owner@example.com",
+    phone_number: "+63 917 000 0000",
+    owner_name: "Mock Owner",
+    country: "PH",
+    currency: { code: "PHP", decimal_places: 2 },
+    created_at: createdAt,
+  };
+
+  const stores = ["Main Branch", "Mall Branch"].map((name) => ({
+    id: uuid(random),
+    name,
+    address: `${name}, Quezon City`,
+    phone_number: "+63 2 8000 0000",
+    created_at: createdAt,
+    updated_at: createdAt,
+  }));
+
+  const suppliers = SUPPLIERS.map((name, i) => ({
+    id: uuid(random),
+    name,
+    contact: "Sales Desk",
+    email: `orders${i + 1}@supplier.example.com`,
+    phone_number: `+63 2 8100 000${i}`,
+    created_at: createdAt,
+    updated_at: createdAt,
+  }));
+
+  const categories = [];
+  const items = [];
+  for (const group of MENU) {
+    const category = {
+      id: uuid(random),
+      name: group.category,
+      color: "GREY",
+      created_at: createdAt,
+    };
+    categories.push(category);
+
+    for (const [itemName, price] of group.items) {
+      const itemId = uuid(random);
+      const cost = round2(price * (0.3 + random() * 0.2));
+      const sku = String(10000 + items.length);
+      items.push({
+        id: itemId,
+        item_name: itemName,
+        category_id: category.id,
+        primary_supplier_id: suppliers[group.supplier].id,
+        track_stock: true,
+        price,
+        cost,
+        sku,
+        variants: [
+          {
+            variant_id: uuid(random),
+            item_id: itemId,
+            sku,
+            barcode: `480${sku}${Math.floor(random() * 10000)}`,
+            option1_value: null,
+            cost,
+            purchase_cost: cost,
+            default_price: price,
+            stores: stores.map((store) => ({
+              store_id: store.id,
+              price,
+              available_for_sale: true,
+              low_stock: 20,
+              optimal_stock: 100,
+            })),
+          },
+        ],
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+    }
+  }
+
+  const inventory_levels = [];
+  for (const item of items) {
+    for (const variant of item.variants) {
+      for (const store of stores) {
+        inventory_levels.push({
+          variant_id: variant.variant_id,
+          store_id: store.id,
+          in_stock: Math.floor(random() * 120),
+          updated_at: createdAt,
+        });
+      }
+    }
+  }
+
+  const employees = ["Ana Santos", "Ben Reyes", "Carla Cruz"].map((name, i) => ({
+    id: uuid(random),
+    name,
+    email: `staff${i + 1}@example.com`,
+    phone_number: `+63 917 000 00${10 + i}`,
+    stores: stores.map((s) => s.id),
+    is_owner: false,
+    created_at: createdAt,
+  }));
+
+  const customers = Array.from({ length: 30 }, (_, i) => ({
+    id: uuid(random),
+    name: `Customer ${i + 1}`,
+    email: `customer${i + 1}@example.com`,
+    phone_number: `+63 918 000 ${String(1000 + i)}`,
+    total_visits: 0,
+    total_spent: 0,
+    created_at: createdAt,
+    updated_at: createdAt,
+  }));
+
+  const payment_types = PAYMENT_TYPES.map(([name, type]) => ({
+    id: uuid(random),
+    name,
+    type,
+    created_at: createdAt,
+  }));
+
+  const receipts = [];
+  let receiptCounter = 1000;
+  for (let day = RECEIPT_DAYS; day >= 0; day--) {
+    const dayStart = now - day * DAY_MS;
+    const count = 8 + Math.floor(random() * 12);
+
+    for (let i = 0; i < count; i++) {
+      const receiptDate = new Date(dayStart - Math.floor(random() * DAY_MS));
+      if (receiptDate.getTime() > now) continue;
+
+      const store = pick(stores);
+      const lineCount = 1 + Math.floor(random() * 3);
+      const line_items = [];
+      for (let l = 0; l < lineCount; l++) {
+        const item = pick(items);
+        const variant = item.variants[0];
+        const quantity = 1 + Math.floor(random() * 3);
+        const gross = round2(item.price * quantity);
+        const modifier = MODIFIERS[categories.find((c) => c.id === item.category_id).name];
+        line_items.push({
+          id: uuid(random),
+          item_id: item.id,
+          variant_id: variant.variant_id,
+          item_name: item.item_name,
+          variant_name: null,
+          sku: variant.sku,
+          quantity,
+          price: item.price,
+          gross_total_money: gross,
+          total_money: gross,
+          cost: item.cost,
+          cost_total: round2(item.cost * quantity),
+          total_discount: 0,
+          line_taxes: [
+            { id: "mock-vat", type: "INCLUDED", name: "VAT", rate: VAT_RATE, money_amount: round2(gross * VAT_RATE / (100 + VAT_RATE)) },
+          ],
+          line_discounts: [],
+          line_modifiers: modifier
+            ? [{ id: "mock-modifier", modifier_option_id: "mock-option", name: modifier[0], option: modifier[1], price: 0, money_amount: 0 }]
+            : [],
+        });
+      }
+
+      const subtotal = round2(line_items.reduce((sum, li) => sum + li.total_money, 0));
+      const discount = random() < 0.1 ? round2(subtotal * 0.1) : 0;
+      const total = round2(subtotal - discount);
+      // The last few customers stopped coming a month ago, so some regulars have lapsed
+      const regulars = day > LAPSED_AFTER_DAYS ? customers : customers.slice(0, -LAPSED_CUSTOMERS);
+      const customer = random() < 0.4 ? pick(regulars) : null;
+      if (customer) {
+        customer.total_visits += 1;
+        customer.total_spent = round2(customer.total_spent + total);
+      }
+      const paymentType = pick(payment_types);
+      const iso = receiptDate.toISOString();
+
+      receipts.push({
+        receipt_number: `${1 + stores.indexOf(store)}-${receiptCounter++}`,
+        receipt_type: "SALE",
+        refund_for: null,
+        order: null,
+        created_at: iso,
+        updated_at: iso,
+        receipt_date: iso,
+        cancelled_at: null,
+        source: "point of sale",
+        total_money: total,
+        total_tax: round2(total * VAT_RATE / (100 + VAT_RATE)),
+        points_earned: 0,
+        points_deducted: 0,
+        points_balance: 0,
+        customer_id: customer ? customer.id : null,
+        total_discount: discount,
+        employee_id: pick(employees).id,
+        store_id: store.id,
+        pos_device_id: null,
+        dining_option: pick(DINING_OPTIONS),
+        total_discounts: discount
+          ? [{ id: "mock-discount", type: "FIXED_PERCENT", name: "Staff promo", percentage: 10, money_amount: discount }]
+          : [],
+        total_taxes: [
+          { id: "mock-vat", type: "INCLUDED", name: "VAT", rate: VAT_RATE, money_amount: round2(total * VAT_RATE / (100 + VAT_RATE)) },
+        ],
+        tip: 0,
+        surcharge: 0,
+        line_items,
+        payments: [
+          {
+            payment_type_id: paymentType.id,
+            name: paymentType.name,
+            type: paymentType.type,
+            money_amount: total,
+            paid_at: iso,
+          },
+        ],
+      });
+    }
+  }
+
+  // A few voided sales
+  for (const receipt of receipts.filter(() => random() < 0.02)) {
+    receipt.cancelled_at = new Date(
+      Math.min(Date.parse(receipt.receipt_date) + 10 * 60 * 1000, now)
+    ).toISOString();
+    receipt.updated_at = receipt.cancelled_at;
+  }
+
+  // A few refunds referencing earlier sales
+  for (const original of receipts.filter((r) => !r.cancelled_at && random() < 0.03)) {
+    const iso = new Date(
+      Math.min(Date.parse(original.receipt_date) + 2 * 60 * 60 * 1000, now)
+    ).toISOString();
+    receipts.push({
+      ...original,
+      receipt_number: `${original.receipt_number.split("-")[0]}-${receiptCounter++}`,
+      receipt_type: "REFUND",
+      refund_for: original.receipt_number,
+      created_at: iso,
+      updated_at: iso,
+      receipt_date: iso,
+    });
+  }
+
+  // Newest first, like the real API
+  receipts.sort((a, b) => b.receipt_date.localeCompare(a.receipt_date));
+
+  return {
+    merchant,
+    stores,
+    categories,
+    items,
+    inventory_levels,
+    employees,
+    customers,
+    payment_types,
+    suppliers,
+    receipts,
+  };
+}
@@ -0,0 +1,280 @@
+/**
+ * Offline mock of the Loyverse API (https://developer.loyverse.com/docs/).
+ *
+ * Serves seeded fixtures with cursor pagination so the MCP tools can be
+ * exercised without live tokens. Point the app at it with:
+ *
+ *   LOYVERSE_API_BASE=http://localhost:4010/v1.0
+ *
+ * Any bearer token is accepted and gets its own dataset. Tokens starting
+ * with "invalid" are rejected with 401.
+ */
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+import { buildFixtures } from "./fixtures.mjs";
+
+const DEFAULT_PORT = 4010;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 250;
+
+// Endpoint -> response key, matching the real API
+const COLLECTIONS = {
+  stores: "stores",
+  items: "items",
+  categories: "categories",
+  receipts: "receipts",
+  inventory: "inventory_levels",
+  customers: "customers",
+  employees: "employees",
+  payment_types: "payment_types",
+  suppliers: "suppliers",
+};
+
+// Field used to look up a single record at /{collection}/{id}
+const ID_FIELDS = {
+  receipts: "receipt_number",
+};
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res, status, code, details) {
+  sendJson(res, status, { errors: [{ code, details }] });
+}
+
+function inDateRange(value, min, max) {
+  if (min && value < new Date(min).toISOString()) return false;
+  if (max && value > new Date(max).toISOString()) return false;
+  return true;
+}
+
+/**
+ * Apply the query filters the real API supports for each collection
+ */
+function applyFilters(collection, records, query) {
+  const list = (name) => query.get(name)?.split(",").filter(Boolean);
+
+  return records.filter((record) => {
+    if (
+      (query.get("created_at_min") || query.get("created_at_max")) &&
+      !inDateRange(record.created_at, query.get("created_at_min"), query.get("created_at_max"))
+    ) {
+      return false;
+    }
+    if (
+      (query.get("updated_at_min") || query.get("updated_at_max")) &&
+      !inDateRange(record.updated_at, query.get("updated_at_min"), query.get("updated_at_max"))
+    ) {
+      return false;
+    }
+
+    switch (collection) {
+      case "receipts": {
+        const numbers = list("receipt_numbers");
+        if (numbers && !numbers.includes(record.receipt_number)) return false;
+        if (query.get("store_id") && record.store_id !== query.get("store_id")) return false;
+        return true;
+      }
+      case "items": {
+        const ids = list("items_ids");
+        if (ids && !ids.includes(record.id)) return false;
+        if (query.get("category_id") && record.category_id !== query.get("category_id")) return false;
+        return true;
+      }
+      case "inventory": {
+        const storeIds = list("store_ids") || list("store_id");
+        const variantIds = list("variant_ids");
+        if (storeIds && !storeIds.includes(record.store_id)) return false;
+        if (variantIds && !variantIds.includes(record.variant_id)) return false;
+        return true;
+      }
+      case "customers": {
+        const ids = list("customer_ids");
+        if (ids && !ids.includes(record.id)) return false;
+        if (query.get("email") && record.email !== query.get("email")) return false;
+        return true;
+      }
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Create or update an item like POST /items: a body with a known id replaces
+ * that item, anything else is created with fresh item and variant ids
+ */
+function upsertItem(data, body) {
+  const now = new Date().toISOString();
+  const existing = body.id ? data.items.find((item) => item.id === body.id) : undefined;
+  if (body.id && !existing) {
+    return { status: 404, record: null };
+  }
+
+  const id = existing ? existing.id : randomUUID();
+  const item = {
+    ...body,
+    id,
+    variants: (body.variants || []).map((variant) => ({
+      ...variant,
+      variant_id: variant.variant_id || randomUUID(),
+      item_id: id,
+    })),
+    created_at: existing ? existing.created_at : now,
+    updated_at: now,
+  };
+
+  if (existing) {
+    data.items[data.items.indexOf(existing)] = item;
+  } else {
+    data.items.push(item);
+  }
+  return { status: existing ? 200 : 201, record: item };
+}
+
+/**
+ * Set stock levels like POST /inventory (stock_after is absolute)
+ */
+function setInventoryLevels(data, body) {
+  const now = new Date().toISOString();
+  return (body.inventory_levels || []).map(({ variant_id, store_id, stock_after }) => {
+    let level = data.inventory_levels.find(
+      (l) => l.variant_id === variant_id && l.store_id === store_id
+    );
+    if (!level) {
+      level = { variant_id, store_id, in_stock: 0 };
+      data.inventory_levels.push(level);
+    }
+    level.in_stock = stock_after;
+    level.updated_at = now;
+    return level;
+  });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Slice a filtered collection by the opaque cursor (a base64 offset)
+ */
+function paginate(records, query) {
+  const limit = Math.min(
+    Math.max(parseInt(query.get("limit") || "", 10) || DEFAULT_LIMIT, 1),
+    MAX_LIMIT
+  );
+  const cursor = query.get("cursor");
+  const offset = cursor ? parseInt(Buffer.from(cursor, "base64").toString("utf8"), 10) || 0 : 0;
+  const page = records.slice(offset, offset + limit);
+  const next = offset + limit < records.length
+    ? Buffer.from(String(offset + limit), "utf8").toString("base64")
+    : undefined;
+  return { page, cursor: next };
+}
+
+/**
+ * Create (but do not start) the mock server
+ */
+export function createMockLoyverseServer() {
+  const datasets = new Map();
+
+  const getDataset = (token) => {
+    if (!datasets.has(token)) {
+      datasets.set(token, buildFixtures(token));
+    }
+    return datasets.get(token);
+  };
+
+  return createServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const segments = url.pathname
+      .replace(/^\/v1\.0/, "")
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    const auth = req.headers.authorization || "";
+    const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : "";
+    if (!token || token.startsWith("invalid")) {
+      sendError(res, 401, "UNAUTHORIZED", "Invalid or missing access token");
+      return;
+    }
+
+    const data = getDataset(token);
+    const [collection, id] = segments;
+
+    if (req.method === "POST" && collection === "items" && segments.length === 1) {
+      readBody(req)
+        .then((body) => {
+          const { status, record } = upsertItem(data, body);
+          if (!record) {
+            sendError(res, 404, "NOT_FOUND", `items ${body.id} not found`);
+            return;
+          }
+          sendJson(res, status, record);
+        })
+        .catch(() => sendError(res, 400, "BAD_REQUEST", "Request body is not valid JSON"));
+      return;
+    }
+
+    if (req.method === "POST" && collection === "inventory" && segments.length === 1) {
+      readBody(req)
+        .then((body) => sendJson(res, 200, { inventory_levels: setInventoryLevels(data, body) }))
+        .catch(() => sendError(res, 400, "BAD_REQUEST", "Request body is not valid JSON"));
+      return;
+    }
+
+    if (req.method !== "GET") {
+      sendError(res, 405, "METHOD_NOT_ALLOWED", `${req.method} ${url.pathname} is not supported by the mock`);
+      return;
+    }
+
+    if (collection === "merchant") {
+      sendJson(res, 200, data.merchant);
+      return;
+    }
+
+    const key = COLLECTIONS[collection];
+    if (!key || segments.length > 2) {
+      sendError(res, 404, "NOT_FOUND", `Unknown endpoint ${url.pathname}`);
+      return;
+    }
+
+    if (id) {
+      const field = ID_FIELDS[collection] || "id";
+      const record = data[key].find((r) => r[field] === id);
+      if (!record) {
+        sendError(res, 404, "NOT_FOUND", `${collection} ${id} not found`);
+        return;
+      }
+      sendJson(res, 200, record);
+      return;
+    }
+
+    const filtered = applyFilters(collection, data[key], url.searchParams);
+    const { page, cursor } = paginate(filtered, url.searchParams);
+    sendJson(res, 200, cursor ? { [key]: page, cursor } : { [key]: page });
+  });
+}
+
+// Run standalone: node mock/loyverse-server.mjs [port]
+if (import.meta.url === pathToFileURL(process.argv[1] || "").href) {
+  const port = Number(process.argv[2] || process.env.PORT || DEFAULT_PORT);
+  createMockLoyverseServer().listen(port, () => {
+    console.log(`Mock Loyverse API listening on http://localhost:${port}/v1.0`);
+  });
+}
@@ -1,24 +1,316 @@
-import { createMcpHandler } from "mcp-handler";
+import { createMcpHandler, withMcpAuth } from "mcp-handler";
 import { z } from "zod";
 import {
   Restaurant,
   RESTAURANTS,
   RESTAURANT_DISPLAY_NAMES,
   isTokenConfigured,
+  fanOutRestaurants,
   loyverseGet,
   loyverseGetAll,
+  loyverseGetAllWithMeta,
+  loyversePost,
   formatCurrency,
   formatDate,
+  formatBusinessDayRange,
+  getBusinessDay,
+  getBusinessDayRange,
+  getBusinessDayRangeBetween,
+  getComparisonRange,
+  getRestaurantBusinessDayRange,
+  BusinessDayRange,
+  Receipt,
+  Item,
+  Category,
+  PaymentType,
+  Employee,
+  Customer,
+  InventoryLevel,
+  Supplier,
+  addDays,
+  LoyverseApiError,
+  LoyverseNotFoundError,
 } from "@/lib/loyverse";
+import { getRestaurantConfig } from "@/lib/restaurants";
+import { fetchReceipts, syncAllReceipts, ReceiptCoverage } from "@/lib/sync";
+import {
+  aggregateEmployeeSales,
+  aggregateItemSales,
+  aggregatePaymentMix,
+  findEmployeeOutliers,
+  buildSalesHeatmap,
+  combinePaymentMixes,
+  summarizeSales,
+  addSalesTotals,
+  compareSalesTotals,
+  isCancelled,
+  isRefund,
+  PaymentMix,
+  SalesTotals,
+  SalesComparison,
+  MetricChange,
+  WEEKDAYS,
+} from "@/lib/analytics";
+import { forecastItemDemand } from "@/lib/forecast";
+import { detectSalesAnomalies, AnomalyKind } from "@/lib/anomalies";
+import {
+  addPriceChange,
+  findItems,
+  getItemWriteBasis,
+  hasChanges,
+  planItemCreate,
+  planItemUpdate,
+  searchItems,
+  ItemWritePlan,
+} from "@/lib/menu";
+import {
+  applyStockAdjustment,
+  findVariant,
+  getVariantName,
+  planStockAdjustment,
+  resolveInventory,
+  sortByUrgency,
+  suggestReorders,
+  InventoryRow,
+  StockAdjustmentReason,
+} from "@/lib/inventory";
+import {
+  CONFIRMATION_TOKEN_TTL_MS,
+  ConfirmationCheck,
+  checkConfirmationToken,
+  getConfirmationToken,
+} from "@/lib/confirm";
+import {
+  buildCustomerStats,
+  findLapsedRegulars,
+  getFavoriteItems,
+  summarizeSegments,
+  CustomerSegment,
+  CustomerStats,
+} from "@/lib/customers";
 import { hybridSearch, listDocuments, deleteByFilename } from "@/lib/rag";
+import {
+  verifyBearerToken,
+  getAllowedRestaurants,
+  assertRestaurantAccess,
+  assertScope,
+  hasScope,
+} from "@/lib/auth";
+import { getRedactor, Redactor } from "@/lib/redaction";
+
+const restaurantSchema = z.enum(RESTAURANTS as [Restaurant, ...Restaurant[]]);
+
+// Shared pieces of tool output schemas
+const periodSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  days: z.number(),
+  startDate: z.string(),
+  endDate: z.string(),
+  timezone: z.string(),
+  dayCutoffHour: z.number(),
+});
+
+const salesTotalsShape = {
+  grossSales: z.number(),
+  refunds: z.number(),
+  netSales: z.number(),
+  cancelledSales: z.number(),
+  transactions: z.number(),
+  refundCount: z.number(),
+  cancelledCount: z.number(),
+  totalTax: z.number(),
+  avgTransaction: z.number(),
+};
+
+const paymentMixShape = {
+  totalAmount: z.number(),
+  totalPayments: z.number(),
+  methods: z.array(
+    z.object({
+      payment_type_id: z.string(),
+      name: z.string(),
+      type: z.string(),
+      amount: z.number(),
+      payments: z.number(),
+      shareOfTotal: z.number(),
+    })
+  ),
+};
+
+const coverageSchema = z.object({
+  requestedFrom: z.string(),
+  requestedTo: z.string(),
+  coveredFrom: z.string(),
+  coveredTo: z.string(),
+  truncated: z.boolean(),
+  reason: z.string().optional(),
+  mirrorUnavailable: z.string().optional(),
+});
+
+const metricChangeSchema = z.object({
+  current: z.number(),
+  baseline: z.number(),
+  delta: z.number(),
+  percentChange: z.number().nullable(),
+});
+
+const salesComparisonShape = {
+  netSales: metricChangeSchema,
+  transactions: metricChangeSchema,
+  avgTransaction: metricChangeSchema,
+};
+
+const forecastShape = z.object({
+  points: z.array(
+    z.object({
+      date: z.string(),
+      weekday: z.string(),
+      units: z.number(),
+      lower: z.number(),
+      upper: z.number(),
+    })
+  ),
+  totalUnits: z.number(),
+  lower: z.number(),
+  upper: z.number(),
+  trendPerDay: z.number(),
+  historyMean: z.number(),
+});
+
+const spikeSchema = z.object({
+  item_id: z.string().nullable(),
+  item_name: z.string(),
+  date: z.string(),
+  weekday: z.string(),
+  units: z.number(),
+  historyMean: z.number(),
+  ratio: z.number(),
+});
+
+const anomalySchema = z.object({
+  kind: z.enum(["sales_drop", "zero_sales_hours", "refund_spike"]),
+  severity: z.enum(["high", "medium", "low"]),
+  store_id: z.string().nullable(),
+  date: z.string(),
+  fromHour: z.number().optional(),
+  toHour: z.number().optional(),
+  actual: z.number(),
+  expected: z.number(),
+  explanation: z.string(),
+});
 
-const restaurantSchema = z.enum([
-  "harveys_wings",
-  "bakugo_ramen",
-  "wildflower",
-  "fika",
-  "harveys_chicken",
-]);
+const ANOMALY_LABELS: Record<AnomalyKind, string> = {
+  sales_drop: "Sales drop",
+  zero_sales_hours: "No sales",
+  refund_spike: "Refund spike",
+};
+
+const fieldValueSchema = z.union([z.string(), z.number(), z.boolean()]).nullable();
+
+const itemWriteSchema = z.object({
+  restaurant: z.string(),
+  action: z.enum(["create", "update"]),
+  item_id: z.string().nullable(),
+  item_name: z.string(),
+  fields: z.array(
+    z.object({ field: z.string(), before: fieldValueSchema, after: fieldValueSchema })
+  ),
+  prices: z.array(
+    z.object({
+      variant_id: z.string().nullable(),
+      variant_name: z.string(),
+      store_id: z.string().nullable(),
+      store_name: z.string(),
+      before: z.number().nullable(),
+      after: z.number(),
+    })
+  ),
+});
+
+const STOCK_REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  waste: "Waste",
+  transfer: "Transfer",
+  count_correction: "Count correction",
+};
+
+// Dry-run and confirm inputs shared by the write tools
+const confirmInputShape = {
+  confirm: z
+    .boolean()
+    .optional()
+    .describe(
+      "Apply the change. Leave unset for a dry run, which previews the diff and returns a confirmation token."
+    ),
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe(
+      "Token from the dry run being confirmed, valid for 10 minutes. Required when confirm is true."
+    ),
+};
+
+const CUSTOMER_SEGMENTS = [
+  "champions",
+  "loyal",
+  "at_risk",
+  "new",
+  "promising",
+  "needs_attention",
+  "hibernating",
+] as const;
+
+const CUSTOMER_SEGMENT_LABELS: Record<CustomerSegment, string> = {
+  champions: "Champions",
+  loyal: "Loyal",
+  at_risk: "At risk",
+  new: "New",
+  promising: "Promising",
+  needs_attention: "Needs attention",
+  hibernating: "Hibernating",
+};
+
+// How long after a sale loyverse_get_receipt looks for refunds of it
+const REFUND_SEARCH_DAYS = 30;
+
+// Most items read from one catalog; larger catalogs are reported as truncated
+const MAX_CATALOG_ITEMS = 5000;
+
+const customerStatsSchema = z.object({
+  customer_id: z.string(),
+  name: z.string(),
+  email: z.string().nullable(),
+  phone_number: z.string().nullable(),
+  visits: z.number(),
+  netSpent: z.number(),
+  avgTicket: z.number(),
+  firstVisit: z.string(),
+  lastVisit: z.string(),
+  daysSinceLastVisit: z.number(),
+  avgDaysBetweenVisits: z.number().nullable(),
+  recency: z.number(),
+  frequency: z.number(),
+  monetary: z.number(),
+  segment: z.enum(CUSTOMER_SEGMENTS),
+});
+
+// Optional period-over-period inputs shared by the sales tools
+const comparisonInputShape = {
+  compare_to: z
+    .enum(["previous_period", "last_year", "custom"])
+    .optional()
+    .describe(
+      "Compare against the previous period of the same length, the same dates last year, or custom baseline dates"
+    ),
+  baseline_start_date: z
+    .string()
+    .optional()
+    .describe("First business day of a custom baseline (YYYY-MM-DD)"),
+  baseline_end_date: z
+    .string()
+    .optional()
+    .describe("Last business day of a custom baseline (YYYY-MM-DD). Defaults to baseline_start_date."),
+};
 
 interface Store {
   id: string;
@@ -36,68 +328,247 @@ interface Merchant {
   business_id?: string;
 }
 
-interface Item {
-  id: string;
-  item_name: string;
-  category_id?: string;
-  price?: number;
-  cost?: number;
-  sku?: string;
-  in_stock?: boolean;
+function describeReceiptSource(
+  source: "mirror" | "live",
+  syncedUntil?: string
+): string {
+  return source === "mirror" && syncedUntil
+    ? `Receipt mirror (synced until ${formatDate(syncedUntil)}) + live API since then`
+    : "Live Loyverse API";
 }
 
-interface Category {
-  id: string;
-  name: string;
-  color?: string;
+function describeCoverage(coverage: ReceiptCoverage): string {
+  if (!coverage.truncated) {
+    return coverage.mirrorUnavailable
+      ? `Complete from the live API (receipt mirror unavailable: ${coverage.mirrorUnavailable})`
+      : "Complete";
+  }
+  return `TRUNCATED (${coverage.reason}) - only receipts from ${formatDate(coverage.coveredFrom)} to ${formatDate(coverage.coveredTo)} are included, so totals understate the period. Narrow the range or run loyverse_sync_receipts.`;
 }
 
-interface Receipt {
-  receipt_number: string;
-  receipt_date: string;
-  total_money: number;
-  total_tax?: number;
-  store_id?: string;
-  employee_id?: string;
-  line_items?: Array<{
-    item_name: string;
-    quantity: number;
-    price: number;
-    total_money: number;
-  }>;
-  payments?: Array<{
-    payment_type_id: string;
-    money_amount: number;
-  }>;
+/**
+ * Why a confirm call was refused; `mismatch` says what the token no longer matches
+ */
+function describeRejectedToken(check: ConfirmationCheck, mismatch: string): string {
+  const retry = "Run a new dry run and confirm its token.";
+  return check === "expired"
+    ? `**Not applied:** the confirmation token has expired (tokens are valid for ${CONFIRMATION_TOKEN_TTL_MS / 60000} minutes). ${retry}\n`
+    : `**Not applied:** ${mismatch} ${retry}\n`;
 }
 
-interface InventoryLevel {
-  variant_id: string;
-  store_id: string;
-  in_stock: number;
+/**
+ * Whether Loyverse refused a write outright. After a 5xx or a lost connection
+ * the write may still have been applied.
+ */
+function isRejectedWrite(error: unknown): boolean {
+  return (
+    error instanceof LoyverseApiError && error.status !== undefined && error.status < 500
+  );
 }
 
-interface Customer {
-  id: string;
-  name: string;
-  email?: string;
-  phone_number?: string;
-  total_spent?: number;
-  total_visits?: number;
+function truncationNote(truncated: boolean, shown: number): string {
+  return truncated
+    ? `**Truncated:** showing the first ${shown}; more records match. Raise the limit or narrow the filters.\n\n`
+    : "\n";
 }
 
-interface Employee {
-  id: string;
-  name: string;
-  email?: string;
-  phone_number?: string;
-  stores?: string[];
+/**
+ * List restaurants whose business days differ from the headline period
+ */
+function describeMixedRanges(
+  ranges: Array<[Restaurant, BusinessDayRange]>,
+  period: BusinessDayRange
+): string {
+  return ranges
+    .filter(
+      ([, r]) =>
+        r.startDate !== period.startDate ||
+        r.timezone !== period.timezone ||
+        r.dayCutoffHour !== period.dayCutoffHour
+    )
+    .map(([restaurant, r]) => `- **${RESTAURANT_DISPLAY_NAMES[restaurant]}:** ${formatBusinessDayRange(r)}\n`)
+    .join("");
 }
 
-interface PaymentType {
-  id: string;
-  name: string;
-  type: string;
+function renderSalesTotals(totals: SalesTotals, currency?: string): string {
+  let text = `- **Gross Sales:** ${formatCurrency(totals.grossSales, currency)} (${totals.transactions} transactions)\n`;
+  text += `- **Refunds:** -${formatCurrency(totals.refunds, currency)} (${totals.refundCount} receipts)\n`;
+  text += `- **Net Sales:** ${formatCurrency(totals.netSales, currency)}\n`;
+  text += `- **Cancelled (excluded):** ${formatCurrency(totals.cancelledSales, currency)} (${totals.cancelledCount} receipts)\n`;
+  text += `- **Net Tax:** ${formatCurrency(totals.totalTax, currency)}\n`;
+  text += `- **Avg Transaction:** ${formatCurrency(totals.avgTransaction, currency)}\n`;
+  return text;
+}
+
+function formatChange(change: MetricChange, format: (value: number) => string): string {
+  const sign = change.delta < 0 ? "-" : "+";
+  const percent =
+    change.percentChange === null
+      ? "n/a"
+      : `${change.percentChange >= 0 ? "+" : ""}${change.percentChange.toFixed(1)}%`;
+  return `${format(change.current)} vs ${format(change.baseline)} (${sign}${format(Math.abs(change.delta))}, ${percent})`;
+}
+
+function formatPercentChange(change: MetricChange): string {
+  if (change.percentChange === null) {
+    return "n/a";
+  }
+  return `${change.percentChange >= 0 ? "+" : ""}${change.percentChange.toFixed(1)}%`;
+}
+
+function renderSalesComparison(comparison: SalesComparison, currency?: string): string {
+  const money = (value: number) => formatCurrency(value, currency);
+  let text = `- **Net Sales:** ${formatChange(comparison.netSales, money)}\n`;
+  text += `- **Transactions:** ${formatChange(comparison.transactions, String)}\n`;
+  text += `- **Avg Ticket:** ${formatChange(comparison.avgTransaction, money)}\n`;
+  return text;
+}
+
+function describeReceiptStatus(receipt: Receipt): string {
+  if (isCancelled(receipt)) {
+    return `Cancelled ${formatDate(receipt.cancelled_at!)}`;
+  }
+  if (isRefund(receipt)) {
+    return receipt.refund_for ? `Refund of #${receipt.refund_for}` : "Refund";
+  }
+  return "Sale";
+}
+
+function renderPaymentMixTable(mix: PaymentMix, currency?: string): string {
+  if (mix.methods.length === 0) {
+    return "No payments in this period.\n";
+  }
+
+  let table = `| Method | Amount | Payments | % of Total |\n`;
+  table += `|--------|--------|----------|------------|\n`;
+  for (const m of mix.methods) {
+    table += `| ${m.name} | ${formatCurrency(m.amount, currency)} | ${m.payments} | ${m.shareOfTotal.toFixed(1)}% |\n`;
+  }
+  table += `| **Total** | **${formatCurrency(mix.totalAmount, currency)}** | **${mix.totalPayments}** | 100% |\n`;
+  return table;
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+/**
+ * Group per-restaurant rows by currency, keeping first-seen order, so money is
+ * only added up, ranked and shared within one currency
+ */
+function groupByCurrency<T extends { currency: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!groups.has(row.currency)) groups.set(row.currency, []);
+    groups.get(row.currency)!.push(row);
+  }
+  return groups;
+}
+
+/**
+ * Render a weekday x hour matrix as a markdown table, trimmed to the hours with sales
+ */
+function renderHeatmapTable(matrix: number[][]): string {
+  const activeHours = Array.from({ length: 24 }, (_, h) => h).filter((h) =>
+    matrix.some((row) => row[h] > 0)
+  );
+  if (activeHours.length === 0) {
+    return "";
+  }
+
+  const hours = Array.from(
+    { length: activeHours[activeHours.length - 1] - activeHours[0] + 1 },
+    (_, i) => activeHours[0] + i
+  );
+
+  let table = `| Day | ${hours.map((h) => String(h).padStart(2, "0")).join(" | ")} |\n`;
+  table += `|-----|${hours.map(() => "---").join("|")}|\n`;
+  WEEKDAYS.forEach((day, d) => {
+    table += `| ${day} | ${hours.map((h) => Math.round(matrix[d][h])).join(" | ")} |\n`;
+  });
+  return table;
+}
+
+function formatDaysAgo(days: number): string {
+  return days === 0 ? "today" : `${days} day${days === 1 ? "" : "s"} ago`;
+}
+
+function renderCustomerTable(customers: CustomerStats[], currency: string): string {
+  let table = `| Customer | Segment | RFM | Visits | Net Spent | Last Visit | Usual Gap |\n`;
+  table += `|----------|---------|-----|--------|-----------|------------|-----------|\n`;
+  for (const c of customers) {
+    const gap = c.avgDaysBetweenVisits !== null ? `${c.avgDaysBetweenVisits.toFixed(1)} days` : "-";
+    table += `| ${c.name} | ${CUSTOMER_SEGMENT_LABELS[c.segment]} | ${c.recency}${c.frequency}${c.monetary} | ${c.visits} | ${formatCurrency(c.netSpent, currency)} | ${formatDaysAgo(c.daysSinceLastVisit)} | ${gap} |\n`;
+  }
+  return table;
+}
+
+function redactCustomerStats(c: CustomerStats, redact: Redactor): CustomerStats {
+  return {
+    ...c,
+    name: redact.name(c.name),
+    email: redact.email(c.email),
+    phone_number: redact.phone(c.phone_number),
+  };
+}
+
+interface PlannedItemWrite {
+  restaurant: Restaurant;
+  plan: ItemWritePlan;
+  storeNames: Map<string, string>;
+}
+
+/**
+ * Plain view of a planned item write for structured output, with store names resolved
+ */
+function describeItemWrite({ restaurant, plan, storeNames }: PlannedItemWrite) {
+  return {
+    restaurant,
+    action: plan.action,
+    item_id: plan.item_id,
+    item_name: plan.item_name,
+    fields: plan.fields,
+    prices: plan.prices.map((p) => ({
+      ...p,
+      store_name: p.store_id ? storeNames.get(p.store_id) || p.store_id : "Default price",
+    })),
+  };
+}
+
+/**
+ * Render planned item writes as a before/after diff of fields and prices
+ */
+function renderItemWrites(planned: PlannedItemWrite[]): string {
+  const format = (value: string | number | boolean | null) =>
+    value === null ? "-" : String(value);
+
+  let text = "";
+  const withFields = planned.filter((p) => p.plan.fields.length > 0);
+  if (withFields.length > 0) {
+    text += `| Restaurant | Item | Field | Current | New |\n`;
+    text += `|------------|------|-------|---------|-----|\n`;
+    for (const { restaurant, plan } of withFields) {
+      for (const f of plan.fields) {
+        text += `| ${RESTAURANT_DISPLAY_NAMES[restaurant]} | ${plan.item_name} | ${f.field} | ${format(f.before)} | ${format(f.after)} |\n`;
+      }
+    }
+    text += "\n";
+  }
+
+  const withPrices = planned.filter((p) => p.plan.prices.length > 0);
+  if (withPrices.length > 0) {
+    text += `| Restaurant | Item | Variant | Store | Current | New |\n`;
+    text += `|------------|------|---------|-------|---------|-----|\n`;
+    for (const write of withPrices) {
+      const { currency } = getRestaurantConfig(write.restaurant);
+      for (const p of describeItemWrite(write).prices) {
+        const before = p.before !== null ? formatCurrency(p.before, currency) : "-";
+        text += `| ${RESTAURANT_DISPLAY_NAMES[write.restaurant]} | ${write.plan.item_name} | ${p.variant_name} | ${p.store_name} | ${before} | ${formatCurrency(p.after, currency)} |\n`;
+      }
+    }
+    text += "\n";
+  }
+  return text;
 }
 
 const handler = createMcpHandler(
@@ -108,25 +579,35 @@ const handler = createMcpHandler(
       {
         title: "List Restaurants",
         description:
-          "List all 5 configured Loyverse restaurant accounts and their connection status.",
+          "List the Loyverse restaurant accounts available to this credential and their connection status.",
         inputSchema: {},
+        outputSchema: {
+          restaurants: z.array(
+            z.object({ id: z.string(), name: z.string(), connected: z.boolean() })
+          ),
+          connected: z.number(),
+        },
       },
-      async () => {
-        const results = RESTAURANTS.map((r) => ({
+      async (_args, extra) => {
+        const allowed = getAllowedRestaurants(extra.authInfo);
+        const results = allowed.map((r) => ({
           id: r,
           name: RESTAURANT_DISPLAY_NAMES[r],
           connected: isTokenConfigured(r),
         }));
 
         const connected = results.filter((r) => r.connected).length;
-        let text = `## Loyverse Restaurants (${connected}/${RESTAURANTS.length} connected)\n\n`;
+        let text = `## Loyverse Restaurants (${connected}/${allowed.length} connected)\n\n`;
 
         for (const r of results) {
           const status = r.connected ? "Connected" : "Not configured";
           text += `- **${r.name}** (${r.id}): ${status}\n`;
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { restaurants: results, connected },
+        };
       }
     );
 
@@ -142,15 +623,28 @@ const handler = createMcpHandler(
             "Restaurant identifier (e.g., harveys_wings, bakugo_ramen)"
           ),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          stores: z.array(
+            z.object({
+              id: z.string(),
+              name: z.string(),
+              address: z.string().nullish(),
+              phone_number: z.string().nullish(),
+            })
+          ),
+        },
       },
-      async ({ restaurant }) => {
+      async ({ restaurant }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+
         const data = await loyverseGetAll<Store>(
-          restaurant as Restaurant,
+          restaurant,
           "/stores",
           "stores"
         );
 
-        let text = `## Stores for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
+        let text = `## Stores for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
 
         if (data.length === 0) {
           text += "No stores found.";
@@ -164,7 +658,18 @@ const handler = createMcpHandler(
           }
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            stores: data.map(({ id, name, address, phone_number }) => ({
+              id,
+              name,
+              address,
+              phone_number,
+            })),
+          },
+        };
       }
     );
 
@@ -173,29 +678,58 @@ const handler = createMcpHandler(
       "loyverse_get_merchant",
       {
         title: "Get Merchant",
-        description: "Get business/account information for a restaurant.",
+        description:
+          "Get business/account information for a restaurant. Contact details are redacted unless the credential has the pii scope.",
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          merchant: z.object({
+            id: z.string(),
+            name: z.string().nullish(),
+            email: z.string().nullish(),
+            phone_number: z.string().nullish(),
+            owner_name: z.string().nullish(),
+            business_id: z.string().nullish(),
+          }),
+        },
       },
-      async ({ restaurant }) => {
+      async ({ restaurant }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+
         const merchant = await loyverseGet<Merchant>(
-          restaurant as Restaurant,
+          restaurant,
           "/merchant"
         );
+        const redact = getRedactor(hasScope(extra.authInfo, "pii"));
+        const email = redact.email(merchant.email);
+        const phoneNumber = redact.phone(merchant.phone_number);
+        const ownerName = redact.name(merchant.owner_name);
 
-        let text = `## Merchant: ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
+        let text = `## Merchant: ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
         text += `- **Business Name:** ${merchant.name || "N/A"}\n`;
         text += `- **ID:** ${merchant.id}\n`;
-        if (merchant.email) text += `- **Email:** ${merchant.email}\n`;
-        if (merchant.phone_number)
-          text += `- **Phone:** ${merchant.phone_number}\n`;
-        if (merchant.owner_name)
-          text += `- **Owner:** ${merchant.owner_name}\n`;
+        if (email) text += `- **Email:** ${email}\n`;
+        if (phoneNumber) text += `- **Phone:** ${phoneNumber}\n`;
+        if (ownerName) text += `- **Owner:** ${ownerName}\n`;
         if (merchant.business_id)
           text += `- **Business ID:** ${merchant.business_id}\n`;
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            merchant: {
+              id: merchant.id,
+              name: merchant.name,
+              email,
+              phone_number: phoneNumber,
+              owner_name: ownerName,
+              business_id: merchant.business_id,
+            },
+          },
+        };
       }
     );
 
@@ -205,7 +739,7 @@ const handler = createMcpHandler(
       {
         title: "List Items",
         description:
-          "Get menu items/products for a restaurant. Optionally filter by category.",
+          "Get menu items/products for a restaurant. Optionally filter by category. To find an item by name, SKU or barcode, use loyverse_search_items.",
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
           category_id: z
@@ -220,37 +754,218 @@ const handler = createMcpHandler(
             .optional()
             .describe("Max items to return (default 100)"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          truncated: z.boolean(),
+          items: z.array(
+            z.object({
+              id: z.string(),
+              item_name: z.string(),
+              category_id: z.string().nullish(),
+              price: z.number().nullish(),
+              cost: z.number().nullish(),
+              sku: z.string().nullish(),
+            })
+          ),
+        },
       },
-      async ({ restaurant, category_id, limit }) => {
+      async ({ restaurant, category_id, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+
         const params: Record<string, string> = {};
         if (category_id) params.category_id = category_id;
 
-        const items = await loyverseGetAll<Item>(
-          restaurant as Restaurant,
+        const { data: items, truncated } = await loyverseGetAllWithMeta<Item>(
+          restaurant,
           "/items",
           "items",
           params,
           limit || 100
         );
 
-        let text = `## Menu Items for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
-        text += `Found ${items.length} items.\n\n`;
+        let text = `## Menu Items for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `Found ${items.length} items.\n`;
+        text += truncationNote(truncated, items.length);
 
         for (const item of items) {
           text += `### ${item.item_name}\n`;
           if (item.price !== undefined)
-            text += `- Price: ${formatCurrency(item.price)}\n`;
+            text += `- Price: ${formatCurrency(item.price, currency)}\n`;
           if (item.sku) text += `- SKU: ${item.sku}\n`;
           if (item.cost !== undefined)
-            text += `- Cost: ${formatCurrency(item.cost)}\n`;
+            text += `- Cost: ${formatCurrency(item.cost, currency)}\n`;
+          text += "\n";
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            truncated,
+            items: items.map(({ id, item_name, category_id, price, cost, sku }) => ({
+              id,
+              item_name,
+              category_id,
+              price,
+              cost,
+              sku,
+            })),
+          },
+        };
+      }
+    );
+
+    // Tool 5: Search items across restaurants
+    server.registerTool(
+      "loyverse_search_items",
+      {
+        title: "Search Items",
+        description:
+          "Find menu items by name, SKU or barcode in one or more restaurants. Names match fuzzily (partial words and small typos), SKUs and barcodes exactly or by prefix. Returns each matching variant with its price, cost and category name, best match first.",
+        inputSchema: {
+          query: z.string().min(1).describe("Item name, SKU or barcode to look for"),
+          restaurants: z
+            .array(restaurantSchema)
+            .optional()
+            .describe("Restaurant IDs to search. If empty, searches all connected restaurants."),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(100)
+            .optional()
+            .describe("Max matches per restaurant (default 20)"),
+        },
+        outputSchema: {
+          query: z.string(),
+          totalMatches: z.number(),
+          results: z.array(
+            z.object({
+              restaurant: z.string(),
+              name: z.string(),
+              currency: z.string(),
+              truncated: z.boolean(),
+              itemsTruncated: z.boolean(),
+              matches: z.array(
+                z.object({
+                  item_id: z.string(),
+                  item_name: z.string(),
+                  variant_id: z.string(),
+                  variant_name: z.string(),
+                  sku: z.string().nullable(),
+                  barcode: z.string().nullable(),
+                  category_id: z.string().nullable(),
+                  category_name: z.string().nullable(),
+                  price: z.number().nullable(),
+                  cost: z.number().nullable(),
+                  matched_on: z.enum(["name", "sku", "barcode"]),
+                  score: z.number(),
+                })
+              ),
+            })
+          ),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+        },
+      },
+      async ({ query, restaurants, limit }, extra) => {
+        const maxMatches = limit || 20;
+
+        const restaurantList =
+          restaurants && restaurants.length > 0
+            ? restaurants
+            : getAllowedRestaurants(extra.authInfo).filter(isTokenConfigured);
+
+        for (const restaurant of restaurantList) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        const { results, failed } = await fanOutRestaurants(
+          restaurantList,
+          async (restaurant, signal) => {
+            const [items, categories] = await Promise.all([
+              loyverseGetAllWithMeta<Item>(
+                restaurant,
+                "/items",
+                "items",
+                {},
+                MAX_CATALOG_ITEMS,
+                signal
+              ),
+              loyverseGetAll<Category>(
+                restaurant,
+                "/categories",
+                "categories",
+                {},
+                undefined,
+                signal
+              ),
+            ]);
+            const matches = searchItems(items.data, categories, query);
+
+            return {
+              restaurant,
+              name: RESTAURANT_DISPLAY_NAMES[restaurant],
+              currency: getRestaurantConfig(restaurant).currency,
+              truncated: matches.length > maxMatches,
+              itemsTruncated: items.truncated,
+              matches: matches.slice(0, maxMatches),
+            };
+          }
+        );
+        const searched = results.map((r) => r.value);
+        const totalMatches = searched.reduce((sum, r) => sum + r.matches.length, 0);
+
+        let text = `## Item Search: "${query}"\n\n`;
+        text += `**Restaurants searched:** ${searched.length}\n`;
+        text += `**Matches:** ${totalMatches}\n\n`;
+
+        for (const r of searched) {
+          text += `### ${r.name}\n\n`;
+          if (r.itemsTruncated) {
+            text += `**Items:** TRUNCATED - only the first ${MAX_CATALOG_ITEMS} catalog items were searched\n\n`;
+          }
+          if (r.matches.length === 0) {
+            text += `No matching items.\n\n`;
+            continue;
+          }
+          text += `| Item | Variant | Category | SKU | Barcode | Price | Cost | Match |\n`;
+          text += `|------|---------|----------|-----|---------|-------|------|-------|\n`;
+          for (const m of r.matches) {
+            const price = m.price !== null ? formatCurrency(m.price, r.currency) : "Variable";
+            const cost = m.cost !== null ? formatCurrency(m.cost, r.currency) : "-";
+            text += `| ${m.item_name} | ${m.variant_name} | ${m.category_name || "-"} | ${m.sku || "-"} | ${m.barcode || "-"} | ${price} | ${cost} | ${m.matched_on} ${(m.score * 100).toFixed(0)}% |\n`;
+          }
+          if (r.truncated) {
+            text += `\nMore matches not shown; raise \`limit\` or refine the query.\n`;
+          }
           text += "\n";
         }
 
-        return { content: [{ type: "text", text }] };
+        if (failed.length > 0) {
+          text += `### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            query,
+            totalMatches,
+            results: searched,
+            failed,
+          },
+        };
       }
     );
 
-    // Tool 5: List categories
+    // Tool 6: List categories
     server.registerTool(
       "loyverse_list_categories",
       {
@@ -259,15 +974,23 @@ const handler = createMcpHandler(
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          categories: z.array(
+            z.object({ id: z.string(), name: z.string(), color: z.string().nullish() })
+          ),
+        },
       },
-      async ({ restaurant }) => {
+      async ({ restaurant }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+
         const categories = await loyverseGetAll<Category>(
-          restaurant as Restaurant,
+          restaurant,
           "/categories",
           "categories"
         );
 
-        let text = `## Categories for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
+        let text = `## Categories for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
 
         if (categories.length === 0) {
           text += "No categories found.";
@@ -277,11 +1000,17 @@ const handler = createMcpHandler(
           }
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            categories: categories.map(({ id, name, color }) => ({ id, name, color })),
+          },
+        };
       }
     );
 
-    // Tool 6: List receipts/transactions
+    // Tool 7: List receipts/transactions
     server.registerTool(
       "loyverse_list_receipts",
       {
@@ -307,50 +1036,430 @@ const handler = createMcpHandler(
             .optional()
             .describe("Max receipts to return (default 50)"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          truncated: z.boolean(),
+          ...salesTotalsShape,
+          receipts: z.array(
+            z.object({
+              receipt_number: z.string(),
+              receipt_type: z.string(),
+              refund_for: z.string().nullish(),
+              cancelled_at: z.string().nullish(),
+              receipt_date: z.string(),
+              business_date: z.string(),
+              total_money: z.number(),
+              total_tax: z.number().nullish(),
+              store_id: z.string().nullish(),
+            })
+          ),
+        },
       },
-      async ({ restaurant, created_at_min, created_at_max, store_id, limit }) => {
+      async ({ restaurant, created_at_min, created_at_max, store_id, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency, timezone, day_cutoff_hour } = getRestaurantConfig(restaurant);
+
         const params: Record<string, string> = {};
         if (created_at_min) params.created_at_min = created_at_min;
         if (created_at_max) params.created_at_max = created_at_max;
         if (store_id) params.store_id = store_id;
 
-        const receipts = await loyverseGetAll<Receipt>(
-          restaurant as Restaurant,
+        const { data: receipts, truncated } = await loyverseGetAllWithMeta<Receipt>(
+          restaurant,
           "/receipts",
           "receipts",
           params,
           limit || 50
         );
 
-        let text = `## Receipts for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
-        text += `Found ${receipts.length} receipts.\n\n`;
+        let text = `## Receipts for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `Found ${receipts.length} receipts.\n`;
+        text += truncationNote(truncated, receipts.length);
 
-        let totalSales = 0;
+        const totals = summarizeSales(receipts);
         for (const receipt of receipts) {
-          totalSales += receipt.total_money;
           text += `### Receipt #${receipt.receipt_number}\n`;
-          text += `- Date: ${formatDate(receipt.receipt_date)}\n`;
-          text += `- Total: ${formatCurrency(receipt.total_money)}\n`;
+          text += `- Type: ${describeReceiptStatus(receipt)}\n`;
+          text += `- Date: ${formatDate(receipt.receipt_date, timezone)}\n`;
+          text += `- Business day: ${getBusinessDay(receipt.receipt_date, timezone, day_cutoff_hour)}\n`;
+          text += `- Total: ${formatCurrency(receipt.total_money, currency)}\n`;
           if (receipt.total_tax)
-            text += `- Tax: ${formatCurrency(receipt.total_tax)}\n`;
+            text += `- Tax: ${formatCurrency(receipt.total_tax, currency)}\n`;
           text += "\n";
         }
 
-        text += `---\n**Total Sales:** ${formatCurrency(totalSales)}\n`;
+        text += `---\n### ${truncated ? "Totals (listed receipts only)" : "Totals"}\n`;
+        text += renderSalesTotals(totals, currency);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            truncated,
+            ...totals,
+            receipts: receipts.map((r) => ({
+              receipt_number: r.receipt_number,
+              receipt_type: r.receipt_type || "SALE",
+              refund_for: r.refund_for,
+              cancelled_at: r.cancelled_at,
+              receipt_date: r.receipt_date,
+              business_date: getBusinessDay(r.receipt_date, timezone, day_cutoff_hour),
+              total_money: r.total_money,
+              total_tax: r.total_tax,
+              store_id: r.store_id,
+            })),
+          },
+        };
+      }
+    );
+
+    // Tool 8: Get a single receipt
+    server.registerTool(
+      "loyverse_get_receipt",
+      {
+        title: "Get Receipt",
+        description:
+          "Look up one receipt by its number (e.g. 12-3456) with full detail: line items with variants and modifiers, discounts, taxes, payments by type, employee, store, dining option and customer ID. A refund links to the sale it refunds; a sale lists any refunds issued within 30 days of it. Useful for customer disputes.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant identifier"),
+          receipt_number: z
+            .string()
+            .trim()
+            .regex(/^#?\d+-\d+$/, "Expected a receipt number like 12-3456")
+            .describe("Receipt number as printed, e.g. 12-3456"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          receipt: z.object({
+            receipt_number: z.string(),
+            receipt_type: z.string(),
+            status: z.string(),
+            receipt_date: z.string(),
+            business_date: z.string(),
+            cancelled_at: z.string().nullish(),
+            store_id: z.string().nullish(),
+            store_name: z.string().nullable(),
+            employee_id: z.string().nullish(),
+            employee_name: z.string().nullable(),
+            customer_id: z.string().nullish(),
+            dining_option: z.string().nullish(),
+            source: z.string().nullish(),
+            note: z.string().nullish(),
+            line_items: z.array(
+              z.object({
+                item_name: z.string(),
+                variant_name: z.string().nullish(),
+                sku: z.string().nullish(),
+                quantity: z.number(),
+                price: z.number(),
+                gross_total_money: z.number().nullish(),
+                total_money: z.number(),
+                modifiers: z.array(
+                  z.object({ name: z.string(), option: z.string(), money_amount: z.number() })
+                ),
+                discounts: z.array(z.object({ name: z.string(), money_amount: z.number() })),
+                taxes: z.array(
+                  z.object({ name: z.string(), rate: z.number().nullish(), money_amount: z.number() })
+                ),
+                note: z.string().nullish(),
+              })
+            ),
+            discounts: z.array(
+              z.object({
+                name: z.string(),
+                type: z.string().nullish(),
+                percentage: z.number().nullish(),
+                money_amount: z.number(),
+              })
+            ),
+            taxes: z.array(
+              z.object({
+                name: z.string(),
+                type: z.string().nullish(),
+                rate: z.number().nullish(),
+                money_amount: z.number(),
+              })
+            ),
+            payments: z.array(
+              z.object({
+                payment_type_id: z.string(),
+                name: z.string(),
+                type: z.string(),
+                money_amount: z.number(),
+                paid_at: z.string().nullish(),
+              })
+            ),
+            total_discount: z.number().nullish(),
+            total_tax: z.number().nullish(),
+            tip: z.number().nullish(),
+            surcharge: z.number().nullish(),
+            total_money: z.number(),
+          }),
+          refundOf: z
+            .object({
+              receipt_number: z.string(),
+              found: z.boolean(),
+              receipt_date: z.string().nullable(),
+              total_money: z.number().nullable(),
+            })
+            .nullable(),
+          refunds: z.array(
+            z.object({
+              receipt_number: z.string(),
+              receipt_date: z.string(),
+              cancelled_at: z.string().nullish(),
+              total_money: z.number(),
+            })
+          ),
+        },
+      },
+      async ({ restaurant, receipt_number }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency, timezone, day_cutoff_hour } = getRestaurantConfig(restaurant);
+        const number = receipt_number.replace(/^#/, "");
+
+        const [receipt, stores, employees, paymentTypes] = await Promise.all([
+          loyverseGet<Receipt>(
+            restaurant,
+            `/receipts/${encodeURIComponent(number)}`
+          ),
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+          loyverseGetAll<Employee>(restaurant, "/employees", "employees"),
+          loyverseGetAll<PaymentType>(restaurant, "/payment_types", "payment_types"),
+        ]);
+
+        const storeName = receipt.store_id
+          ? stores.find((s) => s.id === receipt.store_id)?.name || receipt.store_id
+          : null;
+        const employeeName = receipt.employee_id
+          ? employees.find((e) => e.id === receipt.employee_id)?.name || receipt.employee_id
+          : null;
+        const typesById = new Map(paymentTypes.map((pt) => [pt.id, pt]));
+        const payments = (receipt.payments || []).map((p) => {
+          const paymentType = typesById.get(p.payment_type_id);
+          return {
+            payment_type_id: p.payment_type_id,
+            name: paymentType?.name || p.name || `Unknown (${p.payment_type_id})`,
+            type: paymentType?.type || p.type || "UNKNOWN",
+            money_amount: p.money_amount,
+            paid_at: p.paid_at,
+          };
+        });
+        const lineItems = (receipt.line_items || []).map((line) => ({
+          item_name: line.item_name,
+          variant_name: line.variant_name,
+          sku: line.sku,
+          quantity: line.quantity,
+          price: line.price,
+          gross_total_money: line.gross_total_money,
+          total_money: line.total_money,
+          modifiers: (line.line_modifiers || []).map(({ name, option, money_amount }) => ({
+            name,
+            option,
+            money_amount,
+          })),
+          discounts: (line.line_discounts || []).map(({ name, money_amount }) => ({
+            name,
+            money_amount,
+          })),
+          taxes: (line.line_taxes || []).map(({ name, rate, money_amount }) => ({
+            name,
+            rate,
+            money_amount,
+          })),
+          note: line.line_note,
+        }));
+        const discounts = (receipt.total_discounts || []).map(
+          ({ name, type, percentage, money_amount }) => ({ name, type, percentage, money_amount })
+        );
+        const taxes = (receipt.total_taxes || []).map(({ name, type, rate, money_amount }) => ({
+          name,
+          type,
+          rate,
+          money_amount,
+        }));
+
+        // A refund points at its sale; a sale's refunds are found by searching after it
+        let refundOf: {
+          receipt_number: string;
+          found: boolean;
+          receipt_date: string | null;
+          total_money: number | null;
+        } | null = null;
+        let refunds: Receipt[] = [];
+        if (isRefund(receipt) && receipt.refund_for) {
+          try {
+            const original = await loyverseGet<Receipt>(
+              restaurant,
+              `/receipts/${encodeURIComponent(receipt.refund_for)}`
+            );
+            refundOf = {
+              receipt_number: original.receipt_number,
+              found: true,
+              receipt_date: original.receipt_date,
+              total_money: original.total_money,
+            };
+          } catch (error) {
+            if (!(error instanceof LoyverseNotFoundError)) throw error;
+            refundOf = {
+              receipt_number: receipt.refund_for,
+              found: false,
+              receipt_date: null,
+              total_money: null,
+            };
+          }
+        } else if (!isRefund(receipt)) {
+          const searchEnd = Math.min(
+            Date.parse(receipt.created_at) + REFUND_SEARCH_DAYS * 24 * 60 * 60 * 1000,
+            Date.now()
+          );
+          const { receipts: later } = await fetchReceipts(restaurant, {
+            created_at_min: receipt.created_at,
+            created_at_max: new Date(searchEnd).toISOString(),
+          });
+          refunds = later
+            .filter((r) => isRefund(r) && r.refund_for === receipt.receipt_number)
+            .sort((a, b) => a.receipt_date.localeCompare(b.receipt_date));
+        }
+
+        const status = describeReceiptStatus(receipt);
+
+        let text = `## Receipt #${receipt.receipt_number}\n\n`;
+        text += `- **Restaurant:** ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n`;
+        text += `- **Type:** ${status}\n`;
+        text += `- **Date:** ${formatDate(receipt.receipt_date, timezone)} (business day ${getBusinessDay(receipt.receipt_date, timezone, day_cutoff_hour)})\n`;
+        if (storeName) text += `- **Store:** ${storeName}\n`;
+        if (employeeName) text += `- **Employee:** ${employeeName}\n`;
+        if (receipt.dining_option) text += `- **Dining option:** ${receipt.dining_option}\n`;
+        if (receipt.customer_id) text += `- **Customer ID:** ${receipt.customer_id}\n`;
+        if (receipt.source) text += `- **Source:** ${receipt.source}\n`;
+        if (receipt.note) text += `- **Note:** ${receipt.note}\n`;
+
+        text += `\n### Line Items\n\n`;
+        if (lineItems.length === 0) {
+          text += `No line items.\n`;
+        } else {
+          text += `| Item | Qty | Price | Gross | Discounts | Total |\n`;
+          text += `|------|-----|-------|-------|-----------|-------|\n`;
+          for (const line of lineItems) {
+            let name = line.variant_name ? `${line.item_name} (${line.variant_name})` : line.item_name;
+            for (const m of line.modifiers) {
+              name += `<br>+ ${m.name}: ${m.option}${m.money_amount ? ` (${formatCurrency(m.money_amount, currency)})` : ""}`;
+            }
+            if (line.note) name += `<br>_${line.note}_`;
+            const lineDiscounts =
+              line.discounts.length > 0
+                ? line.discounts
+                    .map((d) => `${d.name} -${formatCurrency(d.money_amount, currency)}`)
+                    .join(", ")
+                : "-";
+            text += `| ${name} | ${line.quantity} | ${formatCurrency(line.price, currency)} | ${formatCurrency(line.gross_total_money ?? line.price * line.quantity, currency)} | ${lineDiscounts} | ${formatCurrency(line.total_money, currency)} |\n`;
+          }
+        }
+
+        text += `\n### Totals\n\n`;
+        for (const d of discounts) {
+          const percent = d.percentage ? ` (${d.percentage}%)` : "";
+          text += `- **Discount - ${d.name}${percent}:** -${formatCurrency(d.money_amount, currency)}\n`;
+        }
+        for (const t of taxes) {
+          const rate = t.rate !== null && t.rate !== undefined ? ` ${t.rate}%` : "";
+          const included = t.type === "INCLUDED" ? ", included" : "";
+          text += `- **Tax - ${t.name}${rate}${included}:** ${formatCurrency(t.money_amount, currency)}\n`;
+        }
+        if (taxes.length === 0 && receipt.total_tax) {
+          text += `- **Tax:** ${formatCurrency(receipt.total_tax, currency)}\n`;
+        }
+        if (receipt.surcharge) text += `- **Surcharge:** ${formatCurrency(receipt.surcharge, currency)}\n`;
+        if (receipt.tip) text += `- **Tip:** ${formatCurrency(receipt.tip, currency)}\n`;
+        text += `- **Total:** ${formatCurrency(receipt.total_money, currency)}\n`;
+
+        text += `\n### Payments\n\n`;
+        if (payments.length === 0) {
+          text += `No payments recorded.\n`;
+        } else {
+          for (const p of payments) {
+            const paidAt = p.paid_at ? ` at ${formatDate(p.paid_at, timezone)}` : "";
+            text += `- **${p.name}** (${p.type}): ${formatCurrency(p.money_amount, currency)}${paidAt}\n`;
+          }
+        }
+
+        if (refundOf) {
+          text += `\n### Refunded Sale\n\n`;
+          text += refundOf.found
+            ? `Refund of #${refundOf.receipt_number} from ${formatDate(refundOf.receipt_date!, timezone)}, originally ${formatCurrency(refundOf.total_money!, currency)}.\n`
+            : `Refund of #${refundOf.receipt_number}, which was not found in this restaurant.\n`;
+        } else if (!isRefund(receipt)) {
+          text += `\n### Refunds\n\n`;
+          if (refunds.length === 0) {
+            text += `No refunds issued within ${REFUND_SEARCH_DAYS} days of this sale.\n`;
+          } else {
+            for (const r of refunds) {
+              const cancelled = isCancelled(r) ? " (cancelled)" : "";
+              text += `- **#${r.receipt_number}** on ${formatDate(r.receipt_date, timezone)}: ${formatCurrency(r.total_money, currency)}${cancelled}\n`;
+            }
+          }
+        }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            receipt: {
+              receipt_number: receipt.receipt_number,
+              receipt_type: receipt.receipt_type || "SALE",
+              status,
+              receipt_date: receipt.receipt_date,
+              business_date: getBusinessDay(receipt.receipt_date, timezone, day_cutoff_hour),
+              cancelled_at: receipt.cancelled_at,
+              store_id: receipt.store_id,
+              store_name: storeName,
+              employee_id: receipt.employee_id,
+              employee_name: employeeName,
+              customer_id: receipt.customer_id,
+              dining_option: receipt.dining_option,
+              source: receipt.source,
+              note: receipt.note,
+              line_items: lineItems,
+              discounts,
+              taxes,
+              payments,
+              total_discount: receipt.total_discount,
+              total_tax: receipt.total_tax,
+              tip: receipt.tip,
+              surcharge: receipt.surcharge,
+              total_money: receipt.total_money,
+            },
+            refundOf,
+            refunds: refunds.map((r) => ({
+              receipt_number: r.receipt_number,
+              receipt_date: r.receipt_date,
+              cancelled_at: r.cancelled_at,
+              total_money: r.total_money,
+            })),
+          },
+        };
       }
     );
 
-    // Tool 7: Get inventory levels
+    // Tool 9: Get inventory levels
     server.registerTool(
       "loyverse_get_inventory",
       {
         title: "Get Inventory",
-        description: "Get current stock levels for a restaurant.",
+        description:
+          "Get current stock levels for a restaurant with item name, variant, SKU and store name, compared against each variant's low-stock threshold. Use low_stock_only to list only low and out-of-stock variants, most urgent first. Correct a level with loyverse_adjust_stock.",
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
           store_id: z.string().optional().describe("Filter by store ID"),
+          low_stock_only: z
+            .boolean()
+            .optional()
+            .describe("Only show variants at or below their low-stock threshold, most urgent first"),
           limit: z
             .number()
             .int()
@@ -359,51 +1468,133 @@ const handler = createMcpHandler(
             .optional()
             .describe("Max items to return (default 100)"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          truncated: z.boolean(),
+          itemsTruncated: z.boolean(),
+          outOfStockCount: z.number(),
+          lowStockCount: z.number(),
+          inventory: z.array(
+            z.object({
+              variant_id: z.string(),
+              item_id: z.string().nullable(),
+              item_name: z.string(),
+              variant_name: z.string(),
+              sku: z.string().nullable(),
+              store_id: z.string(),
+              store_name: z.string(),
+              in_stock: z.number(),
+              low_stock: z.number().nullable(),
+              optimal_stock: z.number().nullable(),
+              status: z.enum(["out_of_stock", "low", "ok"]),
+            })
+          ),
+        },
       },
-      async ({ restaurant, store_id, limit }) => {
+      async ({ restaurant, store_id, low_stock_only, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+
         const params: Record<string, string> = {};
-        if (store_id) params.store_id = store_id;
+        if (store_id) params.store_ids = store_id;
 
-        const inventory = await loyverseGetAll<InventoryLevel>(
-          restaurant as Restaurant,
-          "/inventory",
-          "inventory_levels",
-          params,
-          limit || 100
-        );
+        // Low-stock flags need every level, so fetch in full and apply the limit to the output
+        const [levels, items, stores] = await Promise.all([
+          loyverseGetAllWithMeta<InventoryLevel>(
+            restaurant,
+            "/inventory",
+            "inventory_levels",
+            params,
+            10000
+          ),
+          loyverseGetAllWithMeta<Item>(
+            restaurant,
+            "/items",
+            "items",
+            {},
+            MAX_CATALOG_ITEMS
+          ),
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+        ]);
+
+        const storeNames = new Map(stores.map((s) => [s.id, s.name]));
+        const rows = resolveInventory(levels.data, items.data, storeNames);
+        const outOfStockCount = rows.filter((r) => r.status === "out_of_stock").length;
+        const lowStockCount = rows.filter((r) => r.status === "low").length;
 
-        let text = `## Inventory for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
-        text += `Found ${inventory.length} inventory records.\n\n`;
+        const matching = low_stock_only
+          ? sortByUrgency(rows.filter((r) => r.status !== "ok"))
+          : rows;
+        const maxRows = limit || 100;
+        const shown = matching.slice(0, maxRows);
+        const truncated = levels.truncated || matching.length > maxRows;
 
-        // Group by store
-        const byStore: Record<string, InventoryLevel[]> = {};
-        for (const inv of inventory) {
-          const sid = inv.store_id || "unknown";
-          if (!byStore[sid]) byStore[sid] = [];
-          byStore[sid].push(inv);
+        let text = `## Inventory for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Out of stock:** ${outOfStockCount} | **Low stock:** ${lowStockCount} | **Variants tracked:** ${rows.length}\n\n`;
+        text += `Showing ${shown.length} ${low_stock_only ? "low or out-of-stock " : ""}inventory records.\n`;
+        if (items.truncated) {
+          text += `**Items:** TRUNCATED - only the first ${MAX_CATALOG_ITEMS} catalog items were loaded, so some variants show as unknown\n`;
         }
+        text += truncationNote(truncated, shown.length);
 
-        for (const [storeId, levels] of Object.entries(byStore)) {
-          text += `### Store: ${storeId}\n`;
-          for (const level of levels) {
-            text += `- Variant ${level.variant_id}: ${level.in_stock} in stock\n`;
+        const statusLabel = (row: InventoryRow) =>
+          row.status === "out_of_stock" ? "OUT" : row.status === "low" ? "LOW" : "OK";
+
+        if (low_stock_only) {
+          if (shown.length === 0) {
+            text += "Nothing is at or below its low-stock threshold.\n";
+          } else {
+            text += `| Status | Item | Variant | SKU | Store | In Stock | Low Stock | Optimal |\n`;
+            text += `|--------|------|---------|-----|-------|----------|-----------|---------|\n`;
+            for (const row of shown) {
+              text += `| ${statusLabel(row)} | ${row.item_name} | ${row.variant_name} | ${row.sku || "-"} | ${row.store_name} | ${row.in_stock} | ${row.low_stock ?? "-"} | ${row.optimal_stock ?? "-"} |\n`;
+            }
+          }
+        } else {
+          // Group by store
+          const byStore: Record<string, InventoryRow[]> = {};
+          for (const row of shown) {
+            if (!byStore[row.store_name]) byStore[row.store_name] = [];
+            byStore[row.store_name].push(row);
+          }
+
+          for (const [storeName, storeRows] of Object.entries(byStore)) {
+            text += `### Store: ${storeName}\n\n`;
+            text += `| Item | Variant | SKU | In Stock | Low Stock | Status |\n`;
+            text += `|------|---------|-----|----------|-----------|--------|\n`;
+            for (const row of storeRows) {
+              text += `| ${row.item_name} | ${row.variant_name} | ${row.sku || "-"} | ${row.in_stock} | ${row.low_stock ?? "-"} | ${statusLabel(row)} |\n`;
+            }
+            text += "\n";
           }
-          text += "\n";
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            truncated,
+            itemsTruncated: items.truncated,
+            outOfStockCount,
+            lowStockCount,
+            inventory: shown,
+          },
+        };
       }
     );
 
-    // Tool 8: List customers
+    // Tool 10: List customers
     server.registerTool(
       "loyverse_list_customers",
       {
         title: "List Customers",
-        description: "Get customer list for a restaurant.",
+        description:
+          "Get customer list for a restaurant. Names and contact details are redacted unless the credential has the pii scope.",
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
-          email: z.string().optional().describe("Filter by email address"),
+          email: z
+            .string()
+            .optional()
+            .describe("Filter by email address (requires the pii scope)"),
           limit: z
             .number()
             .int()
@@ -412,62 +1603,131 @@ const handler = createMcpHandler(
             .optional()
             .describe("Max customers to return (default 50)"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          truncated: z.boolean(),
+          customers: z.array(
+            z.object({
+              id: z.string(),
+              name: z.string().nullish(),
+              email: z.string().nullish(),
+              phone_number: z.string().nullish(),
+              total_spent: z.number().nullish(),
+              total_visits: z.number().nullish(),
+            })
+          ),
+        },
       },
-      async ({ restaurant, email, limit }) => {
+      async ({ restaurant, email, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+
         const params: Record<string, string> = {};
-        if (email) params.email = email;
+        if (email) {
+          // Filtering by email would confirm addresses to callers who only see them redacted
+          assertScope(extra.authInfo, "pii");
+          params.email = email;
+        }
 
-        const customers = await loyverseGetAll<Customer>(
-          restaurant as Restaurant,
+        const { data: customers, truncated } = await loyverseGetAllWithMeta<Customer>(
+          restaurant,
           "/customers",
           "customers",
           params,
           limit || 50
         );
 
-        let text = `## Customers for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
-        text += `Found ${customers.length} customers.\n\n`;
+        const redact = getRedactor(hasScope(extra.authInfo, "pii"));
+        const visible = customers.map((c) => ({
+          ...c,
+          name: redact.name(c.name),
+          email: redact.email(c.email),
+          phone_number: redact.phone(c.phone_number),
+        }));
+
+        let text = `## Customers for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `Found ${customers.length} customers.\n`;
+        text += truncationNote(truncated, customers.length);
 
-        for (const customer of customers) {
+        for (const customer of visible) {
           text += `### ${customer.name || "Unknown"}\n`;
           text += `- ID: ${customer.id}\n`;
           if (customer.email) text += `- Email: ${customer.email}\n`;
           if (customer.phone_number)
             text += `- Phone: ${customer.phone_number}\n`;
           if (customer.total_spent !== undefined)
-            text += `- Total Spent: ${formatCurrency(customer.total_spent)}\n`;
+            text += `- Total Spent: ${formatCurrency(customer.total_spent, currency)}\n`;
           if (customer.total_visits !== undefined)
             text += `- Visits: ${customer.total_visits}\n`;
           text += "\n";
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            truncated,
+            customers: visible.map((c) => ({
+              id: c.id,
+              name: c.name,
+              email: c.email,
+              phone_number: c.phone_number,
+              total_spent: c.total_spent,
+              total_visits: c.total_visits,
+            })),
+          },
+        };
       }
     );
 
-    // Tool 9: List employees
+    // Tool 11: List employees
     server.registerTool(
       "loyverse_list_employees",
       {
         title: "List Employees",
-        description: "Get staff list for a restaurant.",
+        description:
+          "Get staff list for a restaurant. Contact details are redacted unless the credential has the pii scope.",
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          employees: z.array(
+            z.object({
+              id: z.string(),
+              name: z.string(),
+              email: z.string().nullish(),
+              phone_number: z.string().nullish(),
+              stores: z.array(z.string()).nullish(),
+            })
+          ),
+        },
       },
-      async ({ restaurant }) => {
+      async ({ restaurant }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+
         const employees = await loyverseGetAll<Employee>(
-          restaurant as Restaurant,
+          restaurant,
           "/employees",
           "employees"
         );
 
-        let text = `## Employees for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
+        // Staff names stay visible; they appear throughout the sales reports
+        const redact = getRedactor(hasScope(extra.authInfo, "pii"));
+        const visible = employees.map((emp) => ({
+          ...emp,
+          email: redact.email(emp.email),
+          phone_number: redact.phone(emp.phone_number),
+        }));
 
-        if (employees.length === 0) {
+        let text = `## Employees for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+
+        if (visible.length === 0) {
           text += "No employees found.";
         } else {
-          for (const emp of employees) {
+          for (const emp of visible) {
             text += `### ${emp.name}\n`;
             text += `- ID: ${emp.id}\n`;
             if (emp.email) text += `- Email: ${emp.email}\n`;
@@ -476,11 +1736,23 @@ const handler = createMcpHandler(
           }
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            employees: visible.map(({ id, name, email, phone_number, stores }) => ({
+              id,
+              name,
+              email,
+              phone_number,
+              stores,
+            })),
+          },
+        };
       }
     );
 
-    // Tool 10: List payment types
+    // Tool 12: List payment types
     server.registerTool(
       "loyverse_list_payment_types",
       {
@@ -490,213 +1762,2771 @@ const handler = createMcpHandler(
         inputSchema: {
           restaurant: restaurantSchema.describe("Restaurant identifier"),
         },
+        outputSchema: {
+          restaurant: z.string(),
+          paymentTypes: z.array(
+            z.object({ id: z.string(), name: z.string(), type: z.string() })
+          ),
+        },
+      },
+      async ({ restaurant }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+
+        const paymentTypes = await loyverseGetAll<PaymentType>(
+          restaurant,
+          "/payment_types",
+          "payment_types"
+        );
+
+        let text = `## Payment Types for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+
+        if (paymentTypes.length === 0) {
+          text += "No payment types found.";
+        } else {
+          for (const pt of paymentTypes) {
+            text += `- **${pt.name}** (${pt.type}) - ID: ${pt.id}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            paymentTypes: paymentTypes.map(({ id, name, type }) => ({ id, name, type })),
+          },
+        };
+      }
+    );
+
+    // Tool 13: Sales summary
+    server.registerTool(
+      "loyverse_sales_summary",
+      {
+        title: "Sales Summary",
+        description:
+          "Get aggregated sales summary for a restaurant for the last N days: gross sales, refunds, cancelled receipts and net sales, with a daily and payment method breakdown. Optionally compare with the previous period, the same period last year or a custom baseline.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant identifier"),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to summarize (default 7)"),
+          ...comparisonInputShape,
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          period: periodSchema,
+          source: z.enum(["mirror", "live"]),
+          syncedUntil: z.string().optional(),
+          coverage: coverageSchema,
+          ...salesTotalsShape,
+          daily: z.array(
+            z.object({
+              date: z.string(),
+              grossSales: z.number(),
+              refunds: z.number(),
+              netSales: z.number(),
+              transactions: z.number(),
+            })
+          ),
+          paymentMix: z.object(paymentMixShape),
+          comparison: z
+            .object({
+              baseline: periodSchema,
+              baselineCoverage: coverageSchema,
+              ...salesComparisonShape,
+            })
+            .optional(),
+        },
+      },
+      async (
+        { restaurant, days, compare_to, baseline_start_date, baseline_end_date },
+        extra
+      ) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+
+        const numDays = days || 7;
+        const range = getRestaurantBusinessDayRange(restaurant, numDays);
+        const baselineRange = compare_to
+          ? getComparisonRange(range, compare_to, {
+              startDate: baseline_start_date,
+              endDate: baseline_end_date,
+            })
+          : undefined;
+
+        const [{ receipts, source, syncedUntil, coverage }, paymentTypes, baseline] =
+          await Promise.all([
+            fetchReceipts(restaurant, {
+              created_at_min: range.from,
+              created_at_max: range.to,
+            }),
+            loyverseGetAll<PaymentType>(restaurant, "/payment_types", "payment_types"),
+            baselineRange
+              ? fetchReceipts(restaurant, {
+                  created_at_min: baselineRange.from,
+                  created_at_max: baselineRange.to,
+                })
+              : undefined,
+          ]);
+        const paymentMix = aggregatePaymentMix(receipts, paymentTypes);
+
+        const totals = summarizeSales(receipts);
+        const comparison =
+          baselineRange && baseline
+            ? {
+                baseline: baselineRange,
+                baselineCoverage: baseline.coverage,
+                ...compareSalesTotals(totals, summarizeSales(baseline.receipts)),
+              }
+            : undefined;
+
+        // Group by local business day
+        const byDay: Record<string, Receipt[]> = {};
+        for (const receipt of receipts) {
+          const day = getBusinessDay(receipt.receipt_date, range.timezone, range.dayCutoffHour);
+          if (!byDay[day]) byDay[day] = [];
+          byDay[day].push(receipt);
+        }
+
+        let text = `## Sales Summary for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(range)}\n`;
+        text += `**Source:** ${describeReceiptSource(source, syncedUntil)}\n`;
+        text += `**Coverage:** ${describeCoverage(coverage)}\n\n`;
+        text += `### Overview\n`;
+        text += renderSalesTotals(totals, currency);
+
+        if (comparison) {
+          text += `\n### Compared to ${formatBusinessDayRange(comparison.baseline)}\n`;
+          text += renderSalesComparison(comparison, currency);
+          if (comparison.baselineCoverage.truncated) {
+            text += `- **Baseline Coverage:** ${describeCoverage(comparison.baselineCoverage)}\n`;
+          }
+        }
+
+        text += `\n### Daily Breakdown\n`;
+        const daily = Object.entries(byDay)
+          .sort((a, b) => b[0].localeCompare(a[0]))
+          .map(([date, dayReceipts]) => {
+            const { grossSales, refunds, netSales, transactions } = summarizeSales(dayReceipts);
+            return { date, grossSales, refunds, netSales, transactions };
+          });
+        for (const day of daily) {
+          const refunds = day.refunds > 0 ? `, refunds -${formatCurrency(day.refunds, currency)}` : "";
+          text += `- **${day.date}:** ${formatCurrency(day.netSales, currency)} net (${day.transactions} transactions${refunds})\n`;
+        }
+
+        text += `\n### Payment Methods\n\n`;
+        text += renderPaymentMixTable(paymentMix, currency);
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            period: range,
+            source,
+            syncedUntil,
+            coverage,
+            ...totals,
+            daily,
+            paymentMix,
+            comparison,
+          },
+        };
+      }
+    );
+
+    // Tool 14: Compare restaurants
+    server.registerTool(
+      "loyverse_compare_restaurants",
+      {
+        title: "Compare Restaurants",
+        description:
+          "Compare net sales (gross sales minus refunds, excluding cancelled receipts) across multiple or all restaurants for the last N days. Optionally compare each restaurant with the previous period, the same period last year or a custom baseline.",
+        inputSchema: {
+          restaurants: z
+            .array(restaurantSchema)
+            .optional()
+            .describe(
+              "List of restaurant IDs to compare. If empty, compares all connected restaurants."
+            ),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to compare (default 7)"),
+          ...comparisonInputShape,
+        },
+        outputSchema: {
+          period: periodSchema,
+          results: z.array(
+            z.object({
+              rank: z.number(),
+              restaurant: z.string(),
+              name: z.string(),
+              currency: z.string(),
+              ...salesTotalsShape,
+              shareOfTotal: z.number(),
+              coverage: coverageSchema,
+              comparison: z
+                .object({
+                  baseline: periodSchema,
+                  baselineCoverage: coverageSchema,
+                  ...salesComparisonShape,
+                })
+                .optional(),
+            })
+          ),
+          currency: z.string().nullable(),
+          grandTotal: z.number().nullable(),
+          grandGross: z.number().nullable(),
+          grandRefunds: z.number().nullable(),
+          totalTransactions: z.number(),
+          avgPerRestaurant: z.number().nullable(),
+          comparison: z
+            .object({ baseline: periodSchema, ...salesComparisonShape })
+            .optional(),
+          totalsByCurrency: z.array(
+            z.object({
+              currency: z.string(),
+              restaurants: z.number(),
+              netSales: z.number(),
+              grossSales: z.number(),
+              refunds: z.number(),
+              transactions: z.number(),
+              avgPerRestaurant: z.number(),
+              comparison: z
+                .object({ baseline: periodSchema, ...salesComparisonShape })
+                .optional(),
+            })
+          ),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+        },
+      },
+      async (
+        { restaurants, days, compare_to, baseline_start_date, baseline_end_date },
+        extra
+      ) => {
+        const numDays = days || 7;
+        const now = new Date();
+
+        // Use provided restaurants or all connected ones the caller can access
+        const allowed = getAllowedRestaurants(extra.authInfo);
+        const restaurantList =
+          restaurants && restaurants.length > 0
+            ? restaurants
+            : allowed.filter(isTokenConfigured);
+
+        for (const restaurant of restaurantList) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        // Each restaurant is bucketed by its own time zone and day cutoff
+        const ranges = new Map(
+          restaurantList.map((r) => [r, getRestaurantBusinessDayRange(r, numDays, now)])
+        );
+        const period = ranges.get(restaurantList[0]) || getBusinessDayRange(numDays);
+        const getBaseline = (range: BusinessDayRange) =>
+          getComparisonRange(range, compare_to!, {
+            startDate: baseline_start_date,
+            endDate: baseline_end_date,
+          });
+        const baselinePeriod = compare_to ? getBaseline(period) : undefined;
+
+        // Fetch all restaurants at once; failures and timeouts are reported, not zeroed
+        const { results: fetched, failed } = await fanOutRestaurants(
+          restaurantList,
+          async (restaurant, signal) => {
+            const range = ranges.get(restaurant)!;
+            const baselineRange = compare_to ? getBaseline(range) : undefined;
+
+            const [{ receipts, coverage }, baseline] = await Promise.all([
+              fetchReceipts(
+                restaurant,
+                { created_at_min: range.from, created_at_max: range.to },
+                undefined,
+                signal
+              ),
+              baselineRange
+                ? fetchReceipts(
+                    restaurant,
+                    { created_at_min: baselineRange.from, created_at_max: baselineRange.to },
+                    undefined,
+                    signal
+                  )
+                : undefined,
+            ]);
+
+            const totals = summarizeSales(receipts);
+            const baselineTotals = baseline ? summarizeSales(baseline.receipts) : undefined;
+
+            return {
+              restaurant,
+              name: RESTAURANT_DISPLAY_NAMES[restaurant],
+              currency: getRestaurantConfig(restaurant).currency,
+              ...totals,
+              coverage,
+              baselineTotals,
+              comparison:
+                baselineRange && baseline && baselineTotals
+                  ? {
+                      baseline: baselineRange,
+                      baselineCoverage: baseline.coverage,
+                      ...compareSalesTotals(totals, baselineTotals),
+                    }
+                  : undefined,
+            };
+          }
+        );
+        const results = fetched.map((f) => f.value);
+
+        // Money is only added up within one currency; rankings and shares are per currency
+        const totalsByCurrency = Array.from(groupByCurrency(results), ([currency, rows]) => {
+          rows.sort((a, b) => b.netSales - a.netSales);
+          const netSales = rows.reduce((sum, r) => sum + r.netSales, 0);
+          const compared = rows.filter((r) => r.baselineTotals);
+          return {
+            currency,
+            restaurants: rows.length,
+            rows,
+            netSales,
+            grossSales: rows.reduce((sum, r) => sum + r.grossSales, 0),
+            refunds: rows.reduce((sum, r) => sum + r.refunds, 0),
+            transactions: rows.reduce((sum, r) => sum + r.transactions, 0),
+            avgPerRestaurant: netSales / rows.length,
+            comparison:
+              baselinePeriod && compared.length > 0
+                ? {
+                    baseline: baselinePeriod,
+                    ...compareSalesTotals(
+                      addSalesTotals(compared),
+                      addSalesTotals(compared.map((r) => r.baselineTotals!))
+                    ),
+                  }
+                : undefined,
+          };
+        });
+        const mixedCurrencies = totalsByCurrency.length > 1;
+        const single = mixedCurrencies ? undefined : totalsByCurrency[0];
+        const totalTransactions = results.reduce((sum, r) => sum + r.transactions, 0);
+
+        let text = `## Restaurant Comparison\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(period)}\n`;
+        text += describeMixedRanges(Array.from(ranges.entries()), period);
+        if (mixedCurrencies) {
+          text += `**Currencies:** ${totalsByCurrency.map((t) => t.currency).join(", ")} - ranks, shares and totals are per currency\n`;
+        }
+        text += `\n### Rankings by Net Sales\n\n`;
+        text += `| Rank | Restaurant | Net Sales | Gross | Refunds | Transactions | Avg Trans | % of Total |\n`;
+        text += `|------|------------|-----------|-------|---------|--------------|-----------|------------|\n`;
+
+        const ranked = totalsByCurrency.flatMap((group) =>
+          group.rows.map(({ baselineTotals, ...r }, i) => ({
+            rank: i + 1,
+            ...r,
+            shareOfTotal: group.netSales > 0 ? (r.netSales / group.netSales) * 100 : 0,
+          }))
+        );
+
+        for (const r of ranked) {
+          const money = (value: number) => formatCurrency(value, r.currency);
+          text += `| ${r.rank} | ${r.name} | ${money(r.netSales)} | ${money(r.grossSales)} | -${money(r.refunds)} | ${r.transactions} | ${money(r.avgTransaction)} | ${r.shareOfTotal.toFixed(1)}% |\n`;
+        }
+
+        const compared = ranked.filter((r) => r.comparison);
+
+        if (baselinePeriod) {
+          text += `\n### Compared to ${formatBusinessDayRange(baselinePeriod)}\n\n`;
+          text += `| Restaurant | Net Sales | Baseline | Change | Transactions | Avg Ticket |\n`;
+          text += `|------------|-----------|----------|--------|--------------|------------|\n`;
+          for (const r of compared) {
+            const c = r.comparison!;
+            const money = (value: number) => formatCurrency(value, r.currency);
+            text += `| ${r.name} | ${money(c.netSales.current)} | ${money(c.netSales.baseline)} | ${formatPercentChange(c.netSales)} | ${c.transactions.current} (${formatPercentChange(c.transactions)}) | ${money(c.avgTransaction.current)} (${formatPercentChange(c.avgTransaction)}) |\n`;
+          }
+          for (const group of totalsByCurrency) {
+            if (!group.comparison) continue;
+            text += `\n**All ${mixedCurrencies ? `${group.currency} ` : ""}restaurants:**\n`;
+            text += renderSalesComparison(group.comparison, group.currency);
+          }
+          const truncatedBaselines = compared.filter((r) => r.comparison!.baselineCoverage.truncated);
+          for (const r of truncatedBaselines) {
+            text += `- **${r.name} baseline coverage:** ${describeCoverage(r.comparison!.baselineCoverage)}\n`;
+          }
+        }
+
+        text += `\n### Totals\n`;
+        if (mixedCurrencies) {
+          for (const group of totalsByCurrency) {
+            const money = (value: number) => formatCurrency(value, group.currency);
+            text += `- **${group.currency} (${group.restaurants} restaurants):** ${money(group.netSales)} net, ${money(group.grossSales)} gross, -${money(group.refunds)} refunds, ${group.transactions} transactions, ${money(group.avgPerRestaurant)} avg per restaurant\n`;
+          }
+        } else {
+          const money = (value: number) => formatCurrency(value, single?.currency);
+          text += `- **Gross Sales:** ${money(single?.grossSales ?? 0)}\n`;
+          text += `- **Refunds:** -${money(single?.refunds ?? 0)}\n`;
+          text += `- **Grand Total Net Sales:** ${money(single?.netSales ?? 0)}\n`;
+        }
+        text += `- **Total Transactions:** ${totalTransactions}\n`;
+        if (!mixedCurrencies) {
+          text += `- **Avg per Restaurant:** ${formatCurrency(single?.avgPerRestaurant ?? 0, single?.currency)}\n`;
+        }
+        if (failed.length > 0) {
+          text += `- **Excluded from totals:** ${failed.map((f) => f.name).join(", ")}\n`;
+        }
+
+        const truncatedResults = results.filter((r) => r.coverage.truncated);
+        if (truncatedResults.length === 0) {
+          text += `- **Coverage:** Complete for all included restaurants\n`;
+        } else {
+          text += `\n### Coverage Warnings\n`;
+          for (const r of truncatedResults) {
+            text += `- **${r.name}:** ${describeCoverage(r.coverage)}\n`;
+          }
+        }
+
+        if (failed.length > 0) {
+          text += `\n### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            period,
+            results: ranked,
+            // Grand totals only exist when every restaurant uses the same currency
+            currency: single?.currency ?? null,
+            grandTotal: single ? single.netSales : mixedCurrencies ? null : 0,
+            grandGross: single ? single.grossSales : mixedCurrencies ? null : 0,
+            grandRefunds: single ? single.refunds : mixedCurrencies ? null : 0,
+            totalTransactions,
+            avgPerRestaurant: single ? single.avgPerRestaurant : mixedCurrencies ? null : 0,
+            comparison: single?.comparison,
+            totalsByCurrency: totalsByCurrency.map(({ rows, ...totals }) => totals),
+            failed,
+          },
+        };
+      }
+    );
+
+    // Tool 15: Sync receipts into the MongoDB mirror
+    server.registerTool(
+      "loyverse_sync_receipts",
+      {
+        title: "Sync Receipts",
+        description:
+          "Mirror receipts into MongoDB so sales tools read from the mirror instead of re-downloading them. Resumes from the last checkpoint; call again if a run reports it is incomplete.",
+        inputSchema: {
+          restaurant: restaurantSchema
+            .optional()
+            .describe(
+              "Restaurant to sync. If omitted, syncs all connected restaurants."
+            ),
+        },
+        outputSchema: {
+          results: z.array(
+            z.object({
+              restaurant: z.string(),
+              receiptsSynced: z.number().optional(),
+              syncedUntil: z.string().optional(),
+              complete: z.boolean().optional(),
+              error: z.string().optional(),
+            })
+          ),
+        },
+      },
+      async ({ restaurant }, extra) => {
+        if (restaurant) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        const restaurantList = restaurant
+          ? [restaurant]
+          : getAllowedRestaurants(extra.authInfo).filter(isTokenConfigured);
+
+        const results = await syncAllReceipts(restaurantList);
+
+        let text = `## Receipt Sync\n\n`;
+
+        for (const result of results) {
+          const name = RESTAURANT_DISPLAY_NAMES[result.restaurant];
+          if ("error" in result) {
+            text += `- **${name}:** Failed - ${result.error}\n`;
+          } else {
+            const status = result.complete ? "Up to date" : "Partial, run again";
+            text += `- **${name}:** ${result.receiptsSynced} receipts synced, mirrored until ${formatDate(result.syncedUntil)} (${status})\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: { results },
+        };
+      }
+    );
+
+    // Tool 16: Item sales ranking with category rollup
+    server.registerTool(
+      "loyverse_item_sales",
+      {
+        title: "Item Sales",
+        description:
+          "Rank menu items by quantity sold and revenue for the last N days, with revenue rolled up by category. Optionally filter by store.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant identifier"),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to analyze (default 7)"),
+          store_id: z.string().optional().describe("Filter by store ID"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(100)
+            .optional()
+            .describe("Number of top items to show (default 20)"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          period: periodSchema,
+          coverage: coverageSchema,
+          itemsTruncated: z.boolean(),
+          totalQuantity: z.number(),
+          totalRevenue: z.number(),
+          topByRevenue: z.array(
+            z.object({
+              item_id: z.string().nullable(),
+              item_name: z.string(),
+              category: z.string(),
+              quantity: z.number(),
+              revenue: z.number(),
+              receipts: z.number(),
+            })
+          ),
+          topByQuantity: z.array(
+            z.object({
+              item_id: z.string().nullable(),
+              item_name: z.string(),
+              quantity: z.number(),
+            })
+          ),
+          categories: z.array(
+            z.object({
+              category: z.string(),
+              quantity: z.number(),
+              revenue: z.number(),
+              items: z.number(),
+              shareOfRevenue: z.number(),
+            })
+          ),
+        },
+      },
+      async ({ restaurant, days, store_id, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+
+        const numDays = days || 7;
+        const topN = limit || 20;
+        const range = getRestaurantBusinessDayRange(restaurant, numDays);
+
+        const [{ receipts, coverage }, items, categories] = await Promise.all([
+          fetchReceipts(restaurant, {
+            created_at_min: range.from,
+            created_at_max: range.to,
+            store_id,
+          }),
+          loyverseGetAllWithMeta<Item>(
+            restaurant,
+            "/items",
+            "items",
+            {},
+            MAX_CATALOG_ITEMS
+          ),
+          loyverseGetAll<Category>(restaurant, "/categories", "categories"),
+        ]);
+
+        const report = aggregateItemSales(receipts, items.data, categories);
+        const topByRevenue = report.items.slice(0, topN);
+        const topByQuantity = [...report.items]
+          .sort((a, b) => b.quantity - a.quantity)
+          .slice(0, topN);
+
+        let text = `## Item Sales for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(range)}\n`;
+        if (store_id) text += `**Store:** ${store_id}\n`;
+        text += `**Coverage:** ${describeCoverage(coverage)}\n`;
+        if (items.truncated) {
+          text += `**Items:** TRUNCATED - only the first ${MAX_CATALOG_ITEMS} catalog items were loaded, so some sales are uncategorized\n`;
+        }
+        text += "\n";
+
+        text += `### Overview\n`;
+        text += `- **Items Sold:** ${report.totalQuantity}\n`;
+        text += `- **Item Revenue:** ${formatCurrency(report.totalRevenue, currency)}\n`;
+        text += `- **Distinct Items:** ${report.items.length}\n\n`;
+
+        if (report.items.length === 0) {
+          text += "No item sales found in this period.\n";
+        } else {
+          text += `### Top Items by Revenue\n\n`;
+          text += `| Rank | Item | Category | Qty | Revenue |\n`;
+          text += `|------|------|----------|-----|---------|\n`;
+          topByRevenue.forEach((item, i) => {
+            text += `| ${i + 1} | ${item.item_name} | ${item.category} | ${item.quantity} | ${formatCurrency(item.revenue, currency)} |\n`;
+          });
+
+          text += `\n### Top Items by Quantity\n`;
+          topByQuantity.forEach((item, i) => {
+            text += `${i + 1}. **${item.item_name}:** ${item.quantity} sold\n`;
+          });
+
+          text += `\n### Sales by Category\n\n`;
+          text += `| Category | Items | Qty | Revenue | % of Revenue |\n`;
+          text += `|----------|-------|-----|---------|--------------|\n`;
+          for (const c of report.categories) {
+            text += `| ${c.category} | ${c.items} | ${c.quantity} | ${formatCurrency(c.revenue, currency)} | ${c.shareOfRevenue.toFixed(1)}% |\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            period: range,
+            coverage,
+            itemsTruncated: items.truncated,
+            totalQuantity: report.totalQuantity,
+            totalRevenue: report.totalRevenue,
+            topByRevenue,
+            topByQuantity: topByQuantity.map(({ item_id, item_name, quantity }) => ({
+              item_id,
+              item_name,
+              quantity,
+            })),
+            categories: report.categories,
+          },
+        };
+      }
+    );
+
+    // Tool 17: Weekday x hour sales heatmap
+    server.registerTool(
+      "loyverse_sales_heatmap",
+      {
+        title: "Sales Heatmap",
+        description:
+          "Bin sales into a weekday x hour-of-day matrix (restaurant local time, Asia/Manila by default) with transaction counts and revenue. Compare several restaurants, or the stores of one restaurant, to plan staffing around real peaks.",
+        inputSchema: {
+          restaurants: z
+            .array(restaurantSchema)
+            .min(1)
+            .describe("Restaurants to include. Several restaurants are compared side by side."),
+          group_by: z
+            .enum(["restaurant", "store"])
+            .optional()
+            .describe("Build one heatmap per restaurant (default) or per store"),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to analyze (default 28)"),
+          metric: z
+            .enum(["revenue", "transactions"])
+            .optional()
+            .describe("Metric shown in the markdown matrix (default revenue)"),
+        },
+        outputSchema: {
+          period: periodSchema,
+          weekdays: z.array(z.string()),
+          groups: z.array(
+            z.object({
+              restaurant: z.string(),
+              store_id: z.string().optional(),
+              label: z.string(),
+              timezone: z.string(),
+              dayCutoffHour: z.number(),
+              currency: z.string(),
+              coverage: coverageSchema,
+              transactions: z.number(),
+              totalRevenue: z.number(),
+              counts: z.array(z.array(z.number())),
+              revenue: z.array(z.array(z.number())),
+              peaks: z.array(
+                z.object({
+                  weekday: z.string(),
+                  hour: z.number(),
+                  count: z.number(),
+                  revenue: z.number(),
+                })
+              ),
+            })
+          ),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+        },
+      },
+      async ({ restaurants, group_by, days, metric }, extra) => {
+        for (const restaurant of restaurants) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        const numDays = days || 28;
+        const showMetric = metric || "revenue";
+        const now = new Date();
+
+        // Each restaurant is bucketed by its own time zone and day cutoff
+        const ranges = new Map(
+          restaurants.map((r) => [
+            r,
+            getRestaurantBusinessDayRange(r, numDays, now),
+          ])
+        );
+        const period = ranges.get(restaurants[0])!;
+
+        // Fetch all restaurants at once; failures and timeouts are reported separately
+        const { results, failed } = await fanOutRestaurants(
+          restaurants,
+          async (restaurant, signal) => {
+            const range = ranges.get(restaurant)!;
+            const { timezone, dayCutoffHour } = range;
+            const { currency } = getRestaurantConfig(restaurant);
+            const { receipts, coverage } = await fetchReceipts(
+              restaurant,
+              { created_at_min: range.from, created_at_max: range.to },
+              undefined,
+              signal
+            );
+
+            if (group_by !== "store") {
+              return [
+                {
+                  restaurant,
+                  label: RESTAURANT_DISPLAY_NAMES[restaurant],
+                  timezone,
+                  dayCutoffHour,
+                  currency,
+                  coverage,
+                  ...buildSalesHeatmap(receipts, timezone, dayCutoffHour),
+                },
+              ];
+            }
+
+            const stores = await loyverseGetAll<Store>(
+              restaurant,
+              "/stores",
+              "stores",
+              {},
+              undefined,
+              signal
+            );
+            const storeNames = new Map(stores.map((s) => [s.id, s.name]));
+            const byStore = new Map<string, Receipt[]>();
+            for (const receipt of receipts) {
+              const storeId = receipt.store_id || "unknown";
+              if (!byStore.has(storeId)) byStore.set(storeId, []);
+              byStore.get(storeId)!.push(receipt);
+            }
+
+            return Array.from(byStore, ([storeId, storeReceipts]) => ({
+              restaurant,
+              store_id: storeId,
+              label: `${RESTAURANT_DISPLAY_NAMES[restaurant]} - ${storeNames.get(storeId) || storeId}`,
+              timezone,
+              dayCutoffHour,
+              currency,
+              coverage,
+              ...buildSalesHeatmap(storeReceipts, timezone, dayCutoffHour),
+            }));
+          }
+        );
+        const groups = results.flatMap((r) => r.value);
+
+        let text = `## Sales Heatmap\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(period)}\n`;
+        text += describeMixedRanges(Array.from(ranges.entries()), period);
+        text += `**Matrix values:** ${showMetric === "revenue" ? "Revenue" : "Transactions"} per business-day weekday and local hour\n\n`;
+
+        for (const group of groups) {
+          text += `### ${group.label}\n\n`;
+          text += `- **Transactions:** ${group.transactions}\n`;
+          text += `- **Revenue:** ${formatCurrency(group.totalRevenue, group.currency)}\n`;
+          text += `- **Time zone:** ${group.timezone}\n`;
+          if (group.coverage.truncated) {
+            text += `- **Coverage:** ${describeCoverage(group.coverage)}\n`;
+          }
+
+          if (group.transactions === 0) {
+            text += `\nNo sales in this period.\n\n`;
+            continue;
+          }
+
+          text += `\n**Peak slots:**\n`;
+          group.peaks.forEach((peak, i) => {
+            text += `${i + 1}. ${peak.weekday} ${formatHour(peak.hour)}: ${formatCurrency(peak.revenue, group.currency)} (${peak.count} transactions)\n`;
+          });
+
+          text += `\n${renderHeatmapTable(
+            showMetric === "revenue" ? group.revenue : group.counts
+          )}\n`;
+        }
+
+        if (failed.length > 0) {
+          text += `### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            period,
+            weekdays: WEEKDAYS,
+            groups,
+            failed,
+          },
+        };
+      }
+    );
+
+    // Tool 18: Payment method mix
+    server.registerTool(
+      "loyverse_payment_mix",
+      {
+        title: "Payment Mix",
+        description:
+          "Break sales down by payment method (Cash, Card, GCash, etc.) with totals, payment counts and share, per restaurant and per store. Use start_date/end_date for a specific business day, e.g. for daily cash reconciliation.",
+        inputSchema: {
+          restaurants: z
+            .array(restaurantSchema)
+            .optional()
+            .describe(
+              "Restaurants to include. If empty, includes all connected restaurants."
+            ),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to analyze (default 7). Ignored when start_date is set."),
+          start_date: z
+            .string()
+            .optional()
+            .describe("First business day (YYYY-MM-DD, restaurant local time)"),
+          end_date: z
+            .string()
+            .optional()
+            .describe("Last business day (YYYY-MM-DD). Defaults to start_date."),
+        },
+        outputSchema: {
+          period: periodSchema,
+          restaurants: z.array(
+            z.object({
+              restaurant: z.string(),
+              name: z.string(),
+              currency: z.string(),
+              coverage: coverageSchema,
+              ...paymentMixShape,
+              stores: z.array(
+                z.object({
+                  store_id: z.string(),
+                  name: z.string(),
+                  ...paymentMixShape,
+                })
+              ),
+            })
+          ),
+          combined: z
+            .array(
+              z.object({
+                currency: z.string(),
+                restaurants: z.number(),
+                ...paymentMixShape,
+              })
+            )
+            .optional(),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+        },
+      },
+      async ({ restaurants, days, start_date, end_date }, extra) => {
+        const allowed = getAllowedRestaurants(extra.authInfo);
+        const restaurantList =
+          restaurants && restaurants.length > 0
+            ? restaurants
+            : allowed.filter(isTokenConfigured);
+
+        for (const restaurant of restaurantList) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        const now = new Date();
+        const span = start_date
+          ? { startDate: start_date, endDate: end_date || start_date }
+          : days || 7;
+        const ranges = new Map(
+          restaurantList.map((r) => [r, getRestaurantBusinessDayRange(r, span, now)])
+        );
+        const period =
+          ranges.get(restaurantList[0]) ||
+          (typeof span === "number"
+            ? getBusinessDayRange(span)
+            : getBusinessDayRangeBetween(span.startDate, span.endDate));
+
+        const { results: fetched, failed } = await fanOutRestaurants(
+          restaurantList,
+          async (restaurant, signal) => {
+            const range = ranges.get(restaurant)!;
+            const [{ receipts, coverage }, paymentTypes, stores] = await Promise.all([
+              fetchReceipts(
+                restaurant,
+                { created_at_min: range.from, created_at_max: range.to },
+                undefined,
+                signal
+              ),
+              loyverseGetAll<PaymentType>(
+                restaurant,
+                "/payment_types",
+                "payment_types",
+                {},
+                undefined,
+                signal
+              ),
+              loyverseGetAll<Store>(restaurant, "/stores", "stores", {}, undefined, signal),
+            ]);
+
+            const storeNames = new Map(stores.map((s) => [s.id, s.name]));
+            const byStore = new Map<string, Receipt[]>();
+            for (const receipt of receipts) {
+              const storeId = receipt.store_id || "unknown";
+              if (!byStore.has(storeId)) byStore.set(storeId, []);
+              byStore.get(storeId)!.push(receipt);
+            }
+
+            return {
+              restaurant,
+              name: RESTAURANT_DISPLAY_NAMES[restaurant],
+              currency: getRestaurantConfig(restaurant).currency,
+              coverage,
+              ...aggregatePaymentMix(receipts, paymentTypes),
+              stores: Array.from(byStore.entries()).map(([storeId, storeReceipts]) => ({
+                store_id: storeId,
+                name: storeNames.get(storeId) || storeId,
+                ...aggregatePaymentMix(storeReceipts, paymentTypes),
+              })),
+            };
+          }
+        );
+        const results = fetched.map((f) => f.value);
+
+        // Payments are only added up within one currency
+        const combined =
+          results.length > 1
+            ? Array.from(groupByCurrency(results), ([currency, rows]) => ({
+                currency,
+                restaurants: rows.length,
+                ...combinePaymentMixes(rows),
+              }))
+            : undefined;
+
+        let text = `## Payment Mix\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(period)}\n`;
+        text += describeMixedRanges(Array.from(ranges.entries()), period);
+        if (combined && combined.length > 1) {
+          text += `**Currencies:** ${combined.map((c) => c.currency).join(", ")} - totals are per currency\n`;
+        }
+        text += "\n";
+
+        for (const group of combined || []) {
+          const scope = combined!.length > 1 ? `${group.currency} ` : "";
+          text += `### All ${scope}Restaurants\n\n`;
+          text += renderPaymentMixTable(group, group.currency);
+          text += "\n";
+        }
+
+        for (const r of results) {
+          text += `### ${r.name}\n\n`;
+          if (r.coverage.truncated) {
+            text += `**Coverage:** ${describeCoverage(r.coverage)}\n\n`;
+          }
+          text += renderPaymentMixTable(r, r.currency);
+
+          if (r.stores.length > 1) {
+            for (const store of r.stores) {
+              text += `\n#### ${store.name}\n\n`;
+              text += renderPaymentMixTable(store, r.currency);
+            }
+          }
+          text += "\n";
+        }
+
+        if (failed.length > 0) {
+          text += `### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            period,
+            restaurants: results,
+            combined,
+            failed,
+          },
+        };
+      }
+    );
+
+    // Tool 19: Refunds and cancelled receipts
+    server.registerTool(
+      "loyverse_refunds",
+      {
+        title: "Refunds Report",
+        description:
+          "List refunded and cancelled receipts for a restaurant, with the original receipt each refund was issued for, refund totals and the refund rate against gross sales.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant identifier"),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to analyze (default 30). Ignored when start_date is set."),
+          start_date: z
+            .string()
+            .optional()
+            .describe("First business day (YYYY-MM-DD, restaurant local time)"),
+          end_date: z
+            .string()
+            .optional()
+            .describe("Last business day (YYYY-MM-DD). Defaults to start_date."),
+          store_id: z.string().optional().describe("Filter by store ID"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          period: periodSchema,
+          coverage: coverageSchema,
+          grossSales: z.number(),
+          refunds: z.number(),
+          refundCount: z.number(),
+          refundRate: z.number(),
+          cancelledSales: z.number(),
+          cancelledCount: z.number(),
+          refundReceipts: z.array(
+            z.object({
+              receipt_number: z.string(),
+              receipt_date: z.string(),
+              total_money: z.number(),
+              store_id: z.string().nullish(),
+              refund_for: z.string().nullish(),
+              original: z
+                .object({
+                  receipt_date: z.string(),
+                  total_money: z.number(),
+                  fullRefund: z.boolean(),
+                })
+                .nullable(),
+            })
+          ),
+          cancelledReceipts: z.array(
+            z.object({
+              receipt_number: z.string(),
+              receipt_type: z.string(),
+              receipt_date: z.string(),
+              cancelled_at: z.string(),
+              total_money: z.number(),
+              store_id: z.string().nullish(),
+            })
+          ),
+        },
+      },
+      async ({ restaurant, days, start_date, end_date, store_id }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency, timezone } = getRestaurantConfig(restaurant);
+
+        const range = getRestaurantBusinessDayRange(
+          restaurant,
+          start_date ? { startDate: start_date, endDate: end_date || start_date } : days || 30
+        );
+
+        const { receipts, coverage } = await fetchReceipts(restaurant, {
+          created_at_min: range.from,
+          created_at_max: range.to,
+          store_id,
+        });
+
+        const totals = summarizeSales(receipts);
+        const refundReceipts = receipts.filter((r) => isRefund(r) && !isCancelled(r));
+        const cancelledReceipts = receipts.filter(isCancelled);
+
+        // Refunds often follow sales from before the period; look those up by number
+        const byNumber = new Map(receipts.map((r) => [r.receipt_number, r]));
+        const missing = Array.from(
+          new Set(
+            refundReceipts
+              .map((r) => r.refund_for)
+              .filter((n): n is string => !!n && !byNumber.has(n))
+          )
+        );
+        for (let i = 0; i < missing.length; i += 50) {
+          const originals = await loyverseGetAll<Receipt>(
+            restaurant,
+            "/receipts",
+            "receipts",
+            { receipt_numbers: missing.slice(i, i + 50).join(",") }
+          );
+          for (const original of originals) byNumber.set(original.receipt_number, original);
+        }
+
+        const refundRows = refundReceipts.map((r) => {
+          const original = r.refund_for ? byNumber.get(r.refund_for) : undefined;
+          return {
+            receipt_number: r.receipt_number,
+            receipt_date: r.receipt_date,
+            total_money: r.total_money,
+            store_id: r.store_id,
+            refund_for: r.refund_for,
+            original: original
+              ? {
+                  receipt_date: original.receipt_date,
+                  total_money: original.total_money,
+                  fullRefund: r.total_money >= original.total_money,
+                }
+              : null,
+          };
+        });
+        const refundRate = totals.grossSales > 0 ? (totals.refunds / totals.grossSales) * 100 : 0;
+
+        let text = `## Refunds for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(range)}\n`;
+        if (store_id) text += `**Store:** ${store_id}\n`;
+        text += `**Coverage:** ${describeCoverage(coverage)}\n\n`;
+
+        text += `### Overview\n`;
+        text += `- **Gross Sales:** ${formatCurrency(totals.grossSales, currency)}\n`;
+        text += `- **Refunds:** -${formatCurrency(totals.refunds, currency)} (${totals.refundCount} receipts, ${refundRate.toFixed(1)}% of gross)\n`;
+        text += `- **Cancelled:** ${formatCurrency(totals.cancelledSales, currency)} (${totals.cancelledCount} receipts)\n\n`;
+
+        text += `### Refunded Receipts\n\n`;
+        if (refundRows.length === 0) {
+          text += "No refunds in this period.\n";
+        } else {
+          text += `| Refund | Date | Amount | Original | Original Date | Original Total |\n`;
+          text += `|--------|------|--------|----------|---------------|----------------|\n`;
+          for (const r of refundRows) {
+            const originalDate = r.original ? formatDate(r.original.receipt_date, timezone) : "-";
+            const originalTotal = r.original
+              ? `${formatCurrency(r.original.total_money, currency)}${r.original.fullRefund ? "" : " (partial)"}`
+              : "-";
+            text += `| #${r.receipt_number} | ${formatDate(r.receipt_date, timezone)} | ${formatCurrency(r.total_money, currency)} | ${r.refund_for ? `#${r.refund_for}` : "-"} | ${originalDate} | ${originalTotal} |\n`;
+          }
+        }
+
+        text += `\n### Cancelled Receipts\n\n`;
+        if (cancelledReceipts.length === 0) {
+          text += "No cancelled receipts in this period.\n";
+        } else {
+          for (const r of cancelledReceipts) {
+            text += `- **#${r.receipt_number}** (${r.receipt_type === "REFUND" ? "refund" : "sale"}): ${formatCurrency(r.total_money, currency)}, ${formatDate(r.receipt_date, timezone)}, cancelled ${formatDate(r.cancelled_at!, timezone)}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            period: range,
+            coverage,
+            grossSales: totals.grossSales,
+            refunds: totals.refunds,
+            refundCount: totals.refundCount,
+            refundRate,
+            cancelledSales: totals.cancelledSales,
+            cancelledCount: totals.cancelledCount,
+            refundReceipts: refundRows,
+            cancelledReceipts: cancelledReceipts.map((r) => ({
+              receipt_number: r.receipt_number,
+              receipt_type: r.receipt_type || "SALE",
+              receipt_date: r.receipt_date,
+              cancelled_at: r.cancelled_at!,
+              total_money: r.total_money,
+              store_id: r.store_id,
+            })),
+          },
+        };
+      }
+    );
+
+    // Tool 20: Employee performance
+    server.registerTool(
+      "loyverse_employee_performance",
+      {
+        title: "Employee Performance",
+        description:
+          "Attribute sales, transactions, average ticket, refunds, voids and discounts to each employee over a date range, with a per-store breakdown. Flags employees whose refund, void or discount rate is well above the restaurant average.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant identifier"),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(90)
+            .optional()
+            .describe("Number of days to analyze (default 7). Ignored when start_date is set."),
+          start_date: z
+            .string()
+            .optional()
+            .describe("First business day (YYYY-MM-DD, restaurant local time)"),
+          end_date: z
+            .string()
+            .optional()
+            .describe("Last business day (YYYY-MM-DD). Defaults to start_date."),
+          store_id: z.string().optional().describe("Filter by store ID"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          period: periodSchema,
+          coverage: coverageSchema,
+          employees: z.array(
+            z.object({
+              employee_id: z.string().nullable(),
+              name: z.string(),
+              ...salesTotalsShape,
+              discounts: z.number(),
+              discountedReceipts: z.number(),
+              stores: z.array(
+                z.object({
+                  store_id: z.string().nullable(),
+                  store_name: z.string(),
+                  ...salesTotalsShape,
+                  discounts: z.number(),
+                })
+              ),
+            })
+          ),
+          outliers: z.array(
+            z.object({
+              employee_id: z.string().nullable(),
+              name: z.string(),
+              metric: z.enum(["refunds", "voids", "discounts"]),
+              rate: z.number(),
+              averageRate: z.number(),
+              count: z.number(),
+            })
+          ),
+        },
+      },
+      async ({ restaurant, days, start_date, end_date, store_id }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+
+        const range = getRestaurantBusinessDayRange(
+          restaurant,
+          start_date ? { startDate: start_date, endDate: end_date || start_date } : days || 7
+        );
+
+        const [{ receipts, coverage }, employeeList, stores] = await Promise.all([
+          fetchReceipts(restaurant, {
+            created_at_min: range.from,
+            created_at_max: range.to,
+            store_id,
+          }),
+          loyverseGetAll<Employee>(restaurant, "/employees", "employees"),
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+        ]);
+
+        const storeNames = new Map(stores.map((s) => [s.id, s.name]));
+        const employees = aggregateEmployeeSales(receipts, employeeList).map((e) => ({
+          ...e,
+          stores: e.stores.map((s) => ({
+            ...s,
+            store_name: (s.store_id && storeNames.get(s.store_id)) || s.store_id || "Unknown store",
+          })),
+        }));
+        const outliers = findEmployeeOutliers(employees);
+
+        let text = `## Employee Performance for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(range)}\n`;
+        if (store_id) text += `**Store:** ${storeNames.get(store_id) || store_id}\n`;
+        text += `**Coverage:** ${describeCoverage(coverage)}\n\n`;
+
+        if (employees.length === 0) {
+          text += "No sales in this period.\n";
+        } else {
+          text += `| Employee | Net Sales | Transactions | Avg Ticket | Refunds | Discounts | Voids |\n`;
+          text += `|----------|-----------|--------------|------------|---------|-----------|-------|\n`;
+          for (const e of employees) {
+            text += `| ${e.name} | ${formatCurrency(e.netSales, currency)} | ${e.transactions} | ${formatCurrency(e.avgTransaction, currency)} | ${formatCurrency(e.refunds, currency)} (${e.refundCount}) | ${formatCurrency(e.discounts, currency)} (${e.discountedReceipts}) | ${e.cancelledCount} |\n`;
+          }
+
+          const multiStore = employees.some((e) => e.stores.length > 1);
+          if (multiStore) {
+            text += `\n### By Store\n`;
+            for (const e of employees) {
+              text += `\n**${e.name}**\n`;
+              for (const s of e.stores) {
+                text += `- ${s.store_name}: ${formatCurrency(s.netSales, currency)} net, ${s.transactions} transactions, refunds ${formatCurrency(s.refunds, currency)}, discounts ${formatCurrency(s.discounts, currency)}\n`;
+              }
+            }
+          }
+
+          text += `\n### Patterns to Review\n`;
+          if (outliers.length === 0) {
+            text += "No employee's refund, void or discount rate stands out.\n";
+          } else {
+            for (const o of outliers) {
+              text += `- **${o.name}:** ${o.count} ${o.metric} (${o.rate.toFixed(1)}% of their sales vs ${o.averageRate.toFixed(1)}% overall)\n`;
+            }
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            period: range,
+            coverage,
+            employees,
+            outliers,
+          },
+        };
+      }
+    );
+
+    // Tool 21: Reorder suggestions
+    server.registerTool(
+      "loyverse_reorder_suggestions",
+      {
+        title: "Reorder Suggestions",
+        description:
+          "Recommend reorder quantities per variant and store from average daily consumption over a lookback window and current inventory, to reach a target number of days of cover. Grouped by primary supplier with estimated purchase cost.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant identifier"),
+          store_id: z.string().optional().describe("Filter by store ID"),
+          lookback_days: z
+            .number()
+            .int()
+            .min(7)
+            .max(90)
+            .optional()
+            .describe("Days of sales used to measure consumption (default 28)"),
+          target_days: z
+            .number()
+            .int()
+            .min(1)
+            .max(60)
+            .optional()
+            .describe("Days of cover to order up to (default 14)"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          lookback: periodSchema,
+          targetDays: z.number(),
+          coverage: coverageSchema,
+          inventoryTruncated: z.boolean(),
+          itemsTruncated: z.boolean(),
+          totalUnits: z.number(),
+          estimatedCost: z.number(),
+          suppliers: z.array(
+            z.object({
+              supplier_id: z.string().nullable(),
+              supplier_name: z.string(),
+              totalUnits: z.number(),
+              estimatedCost: z.number(),
+              lines: z.array(
+                z.object({
+                  variant_id: z.string(),
+                  item_id: z.string().nullable(),
+                  item_name: z.string(),
+                  variant_name: z.string(),
+                  sku: z.string().nullable(),
+                  store_id: z.string(),
+                  store_name: z.string(),
+                  in_stock: z.number(),
+                  avgDailyUnits: z.number(),
+                  daysOfCover: z.number(),
+                  reorderQuantity: z.number(),
+                  unitCost: z.number().nullable(),
+                  estimatedCost: z.number().nullable(),
+                })
+              ),
+            })
+          ),
+        },
+      },
+      async ({ restaurant, store_id, lookback_days, target_days }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+
+        const lookbackDays = lookback_days || 28;
+        const targetDays = target_days || 14;
+
+        // Measure over complete business days so a partial today does not dilute the average
+        const today = getRestaurantBusinessDayRange(restaurant, 1);
+        const lookback = getRestaurantBusinessDayRange(restaurant, {
+          startDate: addDays(today.startDate, -lookbackDays),
+          endDate: addDays(today.startDate, -1),
+        });
+
+        const params: Record<string, string> = {};
+        if (store_id) params.store_ids = store_id;
+
+        const [{ receipts, coverage }, levels, items, stores, suppliers] = await Promise.all([
+          fetchReceipts(restaurant, {
+            created_at_min: lookback.from,
+            created_at_max: lookback.to,
+            store_id,
+          }),
+          loyverseGetAllWithMeta<InventoryLevel>(
+            restaurant,
+            "/inventory",
+            "inventory_levels",
+            params,
+            10000
+          ),
+          loyverseGetAllWithMeta<Item>(
+            restaurant,
+            "/items",
+            "items",
+            {},
+            MAX_CATALOG_ITEMS
+          ),
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+          loyverseGetAll<Supplier>(restaurant, "/suppliers", "suppliers"),
+        ]);
+
+        const storeNames = new Map(stores.map((s) => [s.id, s.name]));
+        const rows = resolveInventory(levels.data, items.data, storeNames);
+        const groups = suggestReorders(
+          rows,
+          items.data,
+          suppliers,
+          receipts,
+          lookbackDays,
+          targetDays
+        );
+        const totalUnits = groups.reduce((sum, g) => sum + g.totalUnits, 0);
+        const estimatedCost = groups.reduce((sum, g) => sum + g.estimatedCost, 0);
+
+        let text = `## Reorder Suggestions for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Consumption measured over:** ${formatBusinessDayRange(lookback)}\n`;
+        text += `**Target cover:** ${targetDays} days\n`;
+        if (store_id) text += `**Store:** ${storeNames.get(store_id) || store_id}\n`;
+        text += `**Coverage:** ${describeCoverage(coverage)}\n`;
+        if (levels.truncated) {
+          text += `**Inventory:** TRUNCATED - only the first ${levels.data.length} stock levels were checked\n`;
+        }
+        if (items.truncated) {
+          text += `**Items:** TRUNCATED - only the first ${MAX_CATALOG_ITEMS} catalog items were loaded, so some variants lack supplier and cost\n`;
+        }
+        text += "\n";
+
+        if (groups.length === 0) {
+          text += `Every tracked variant has at least ${targetDays} days of cover at its current sales rate.\n`;
+        } else {
+          text += `**Total:** ${totalUnits} units, est. ${formatCurrency(estimatedCost, currency)}\n\n`;
+
+          for (const group of groups) {
+            text += `### ${group.supplier_name}\n`;
+            text += `${group.totalUnits} units, est. ${formatCurrency(group.estimatedCost, currency)}\n\n`;
+            text += `| Item | Variant | SKU | Store | In Stock | Avg/Day | Days of Cover | Order Qty | Est. Cost |\n`;
+            text += `|------|---------|-----|-------|----------|---------|---------------|-----------|-----------|\n`;
+            for (const line of group.lines) {
+              const cost = line.estimatedCost !== null ? formatCurrency(line.estimatedCost, currency) : "-";
+              text += `| ${line.item_name} | ${line.variant_name} | ${line.sku || "-"} | ${line.store_name} | ${line.in_stock} | ${line.avgDailyUnits.toFixed(1)} | ${line.daysOfCover.toFixed(1)} | ${line.reorderQuantity} | ${cost} |\n`;
+            }
+            text += "\n";
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            lookback,
+            targetDays,
+            coverage,
+            inventoryTruncated: levels.truncated,
+            itemsTruncated: items.truncated,
+            totalUnits,
+            estimatedCost,
+            suppliers: groups.map((g) => ({
+              ...g,
+              lines: g.lines.map((line) => ({
+                variant_id: line.variant_id,
+                item_id: line.item_id,
+                item_name: line.item_name,
+                variant_name: line.variant_name,
+                sku: line.sku,
+                store_id: line.store_id,
+                store_name: line.store_name,
+                in_stock: line.in_stock,
+                avgDailyUnits: line.avgDailyUnits,
+                daysOfCover: line.daysOfCover,
+                reorderQuantity: line.reorderQuantity,
+                unitCost: line.unitCost,
+                estimatedCost: line.estimatedCost,
+              })),
+            })),
+          },
+        };
+      }
+    );
+
+    // Tool 22: Item demand forecast
+    server.registerTool(
+      "loyverse_forecast_demand",
+      {
+        title: "Forecast Item Demand",
+        description:
+          "Project unit sales for the next 1-14 business days, per item and in total, for one or more restaurants. Uses day-of-week seasonality and a linear trend fitted to recent receipt history (net of refunds, excluding cancelled receipts), with 80% confidence bands. Also lists the items expected to spike above their usual daily volume. Useful for prep planning.",
+        inputSchema: {
+          restaurants: z
+            .array(restaurantSchema)
+            .optional()
+            .describe("Restaurant IDs to forecast. If empty, forecasts all connected restaurants."),
+          horizon_days: z
+            .number()
+            .int()
+            .min(1)
+            .max(14)
+            .optional()
+            .describe("Business days to forecast, starting today (default 7)"),
+          history_days: z
+            .number()
+            .int()
+            .min(14)
+            .max(90)
+            .optional()
+            .describe("Complete business days of history to fit on (default 56)"),
+          item: z
+            .string()
+            .optional()
+            .describe("Only forecast items whose name contains this text (case-insensitive)"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(50)
+            .optional()
+            .describe("Max items per restaurant (default 10)"),
+        },
+        outputSchema: {
+          horizonDays: z.number(),
+          historyDays: z.number(),
+          results: z.array(
+            z.object({
+              restaurant: z.string(),
+              name: z.string(),
+              history: periodSchema,
+              coverage: coverageSchema,
+              total: forecastShape,
+              items: z.array(
+                z.object({
+                  item_id: z.string().nullable(),
+                  item_name: z.string(),
+                  ...forecastShape.shape,
+                })
+              ),
+              spikes: z.array(spikeSchema),
+            })
+          ),
+          spikes: z.array(spikeSchema.extend({ restaurant: z.string() })),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+        },
+      },
+      async ({ restaurants, horizon_days, history_days, item, limit }, extra) => {
+        const horizonDays = horizon_days || 7;
+        const historyDays = history_days || 56;
+        const maxItems = limit || 10;
+        const now = new Date();
+
+        const restaurantList =
+          restaurants && restaurants.length > 0
+            ? restaurants
+            : getAllowedRestaurants(extra.authInfo).filter(isTokenConfigured);
+
+        for (const restaurant of restaurantList) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        const query = item?.trim().toLowerCase();
+
+        const { results, failed } = await fanOutRestaurants(
+          restaurantList,
+          async (restaurant, signal) => {
+            // Fit on complete business days only; today is the first forecast day
+            const today = getRestaurantBusinessDayRange(restaurant, 1, now);
+            const history = getRestaurantBusinessDayRange(
+              restaurant,
+              {
+                startDate: addDays(today.startDate, -historyDays),
+                endDate: addDays(today.startDate, -1),
+              },
+              now
+            );
+            const historyDates = Array.from({ length: historyDays }, (_, i) =>
+              addDays(history.startDate, i)
+            );
+            const futureDates = Array.from({ length: horizonDays }, (_, i) =>
+              addDays(today.startDate, i)
+            );
+
+            const { receipts, coverage } = await fetchReceipts(
+              restaurant,
+              { created_at_min: history.from, created_at_max: history.to },
+              undefined,
+              signal
+            );
+
+            const forecast = forecastItemDemand(
+              receipts,
+              historyDates,
+              futureDates,
+              history.timezone,
+              history.dayCutoffHour
+            );
+            const matches = (name: string) => !query || name.toLowerCase().includes(query);
+
+            return {
+              restaurant,
+              name: RESTAURANT_DISPLAY_NAMES[restaurant],
+              history,
+              coverage,
+              total: forecast.total,
+              items: forecast.items.filter((i) => matches(i.item_name)).slice(0, maxItems),
+              spikes: forecast.spikes.filter((s) => matches(s.item_name)).slice(0, 5),
+            };
+          }
+        );
+        const forecasts = results.map((r) => r.value);
+
+        const spikes = forecasts
+          .flatMap((f) => f.spikes.map((s) => ({ restaurant: f.restaurant, ...s })))
+          .sort((a, b) => b.ratio - a.ratio)
+          .slice(0, 10);
+
+        let text = `## Demand Forecast\n\n`;
+        text += `**Horizon:** next ${horizonDays} business day${horizonDays === 1 ? "" : "s"}, starting today\n`;
+        text += `**Fitted on:** ${historyDays} days of history, day-of-week seasonality + linear trend, 80% bands\n`;
+        if (item) text += `**Items matching:** "${item}"\n`;
+        text += "\n";
+
+        if (spikes.length > 0) {
+          text += `### Expected Spikes\n\n`;
+          text += `| Restaurant | Item | Day | Forecast | Usual/Day | vs Usual |\n`;
+          text += `|------------|------|-----|----------|-----------|----------|\n`;
+          for (const s of spikes) {
+            text += `| ${RESTAURANT_DISPLAY_NAMES[s.restaurant]} | ${s.item_name} | ${s.weekday} ${s.date} | ${s.units.toFixed(1)} | ${s.historyMean.toFixed(1)} | ${s.ratio.toFixed(1)}x |\n`;
+          }
+          text += "\n";
+        }
+
+        for (const f of forecasts) {
+          text += `### ${f.name}\n`;
+          text += `**History:** ${formatBusinessDayRange(f.history)}\n`;
+          if (f.coverage.truncated) {
+            text += `**Coverage:** ${describeCoverage(f.coverage)}\n`;
+          }
+          text += `**Total units:** ${f.total.totalUnits.toFixed(0)} (${f.total.lower.toFixed(0)}-${f.total.upper.toFixed(0)}), trend ${f.total.trendPerDay >= 0 ? "+" : ""}${f.total.trendPerDay.toFixed(1)} units/day\n\n`;
+
+          text += `| Day | ${f.total.points.map((p) => `${p.weekday} ${p.date.slice(5)}`).join(" | ")} |\n`;
+          text += `|-----|${f.total.points.map(() => "---").join("|")}|\n`;
+          text += `| All items | ${f.total.points.map((p) => p.units.toFixed(0)).join(" | ")} |\n`;
+          for (const i of f.items) {
+            text += `| ${i.item_name} | ${i.points.map((p) => `${p.units.toFixed(0)} (${p.lower.toFixed(0)}-${p.upper.toFixed(0)})`).join(" | ")} |\n`;
+          }
+          if (f.items.length === 0) {
+            text += `\nNo item sales in the history window${item ? ` for items matching "${item}"` : ""}.\n`;
+          }
+          text += "\n";
+        }
+
+        if (failed.length > 0) {
+          text += `### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            horizonDays,
+            historyDays,
+            results: forecasts,
+            spikes,
+            failed,
+          },
+        };
+      }
+    );
+
+    // Tool 23: Sales anomaly detection
+    server.registerTool(
+      "loyverse_sales_anomalies",
+      {
+        title: "Sales Anomalies",
+        description:
+          "Scan the most recent business days for each restaurant and store against a rolling baseline and flag anomalies: sudden drops in net sales, hours with no sales during usual opening time (often a broken or offline POS), and unusual refund spikes. Each flag has a severity (high, medium, low) and an explanation. Today is checked up to the last completed hour.",
+        inputSchema: {
+          restaurants: z
+            .array(restaurantSchema)
+            .optional()
+            .describe("Restaurant IDs to scan. If empty, scans all connected restaurants."),
+          days: z
+            .number()
+            .int()
+            .min(1)
+            .max(7)
+            .optional()
+            .describe("Recent business days to scan, including today (default 2)"),
+          baseline_days: z
+            .number()
+            .int()
+            .min(7)
+            .max(56)
+            .optional()
+            .describe("Business days before the scanned ones to use as the baseline (default 28)"),
+          min_severity: z
+            .enum(["high", "medium", "low"])
+            .optional()
+            .describe("Only report anomalies at or above this severity (default low)"),
+        },
+        outputSchema: {
+          results: z.array(
+            z.object({
+              restaurant: z.string(),
+              name: z.string(),
+              period: periodSchema,
+              baseline: periodSchema,
+              coverage: coverageSchema,
+              anomalies: z.array(anomalySchema),
+            })
+          ),
+          totalAnomalies: z.number(),
+          highSeverity: z.number(),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+        },
+      },
+      async ({ restaurants, days, baseline_days, min_severity }, extra) => {
+        const scanDays = days || 2;
+        const baselineDays = baseline_days || 28;
+        const severities = ["high", "medium", "low"];
+        const maxSeverity = severities.indexOf(min_severity || "low");
+        const now = new Date();
+
+        const restaurantList =
+          restaurants && restaurants.length > 0
+            ? restaurants
+            : getAllowedRestaurants(extra.authInfo).filter(isTokenConfigured);
+
+        for (const restaurant of restaurantList) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
+        const { results, failed } = await fanOutRestaurants(
+          restaurantList,
+          async (restaurant, signal) => {
+            const { currency } = getRestaurantConfig(restaurant);
+            const period = getRestaurantBusinessDayRange(restaurant, scanDays, now);
+            const baseline = getRestaurantBusinessDayRange(
+              restaurant,
+              {
+                startDate: addDays(period.startDate, -baselineDays),
+                endDate: addDays(period.startDate, -1),
+              },
+              now
+            );
+
+            // One fetch covers the baseline and the scanned days
+            const [{ receipts, coverage }, stores] = await Promise.all([
+              fetchReceipts(
+                restaurant,
+                { created_at_min: baseline.from, created_at_max: period.to },
+                undefined,
+                signal
+              ),
+              loyverseGetAll<Store>(restaurant, "/stores", "stores", {}, undefined, signal),
+            ]);
+
+            const anomalies = detectSalesAnomalies(receipts, {
+              scanDates: Array.from({ length: scanDays }, (_, i) => addDays(period.startDate, i)),
+              baselineDates: Array.from({ length: baselineDays }, (_, i) =>
+                addDays(baseline.startDate, i)
+              ),
+              timeZone: period.timezone,
+              cutoffHour: period.dayCutoffHour,
+              now,
+              storeNames: new Map(stores.map((s) => [s.id, s.name])),
+              currency,
+            }).filter((a) => severities.indexOf(a.severity) <= maxSeverity);
+
+            return {
+              restaurant,
+              name: RESTAURANT_DISPLAY_NAMES[restaurant],
+              period,
+              baseline,
+              coverage,
+              anomalies,
+            };
+          }
+        );
+        const scanned = results.map((r) => r.value);
+
+        const totalAnomalies = scanned.reduce((sum, r) => sum + r.anomalies.length, 0);
+        const highSeverity = scanned.reduce(
+          (sum, r) => sum + r.anomalies.filter((a) => a.severity === "high").length,
+          0
+        );
+
+        let text = `## Sales Anomalies\n\n`;
+        text += `**Scanned:** last ${scanDays} business day${scanDays === 1 ? "" : "s"} against the previous ${baselineDays}\n`;
+        text += `**Found:** ${totalAnomalies} anomal${totalAnomalies === 1 ? "y" : "ies"} (${highSeverity} high severity)\n\n`;
+
+        for (const r of scanned) {
+          text += `### ${r.name}\n`;
+          text += `**Period:** ${formatBusinessDayRange(r.period)}\n`;
+          text += `**Baseline:** ${formatBusinessDayRange(r.baseline)}\n`;
+          if (r.coverage.truncated) {
+            text += `**Coverage:** ${describeCoverage(r.coverage)}\n`;
+          }
+          text += "\n";
+
+          if (r.anomalies.length === 0) {
+            text += `No anomalies found.\n\n`;
+            continue;
+          }
+
+          text += `| Severity | Type | Date | Explanation |\n`;
+          text += `|----------|------|------|-------------|\n`;
+          for (const a of r.anomalies) {
+            text += `| ${a.severity.toUpperCase()} | ${ANOMALY_LABELS[a.kind]} | ${a.date} | ${a.explanation} |\n`;
+          }
+          text += "\n";
+        }
+
+        if (failed.length > 0) {
+          text += `### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            results: scanned,
+            totalAnomalies,
+            highSeverity,
+            failed,
+          },
+        };
+      }
+    );
+
+    // Tool 24: Create or update an item
+    server.registerTool(
+      "loyverse_upsert_item",
+      {
+        title: "Create or Update Item",
+        description:
+          "Create a new menu item, or update an existing item's name, category, stock tracking or price, through Loyverse's POST /items. Always call first without confirm: the dry run shows a before/after diff and returns a confirmation token. Then call again with the same inputs, confirm: true and the token to apply it. Requires the write scope.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant ID"),
+          item_id: z
+            .string()
+            .optional()
+            .describe("Item to update. Omit to create a new item."),
+          item_name: z.string().optional().describe("Item name (required when creating)"),
+          category_id: z.string().optional().describe("Category ID"),
+          track_stock: z.boolean().optional().describe("Whether stock is tracked for the item"),
+          price: z
+            .number()
+            .min(0)
+            .optional()
+            .describe("Fixed price (required when creating). On update, applies to the variant and store below, or to all."),
+          variant: z
+            .string()
+            .optional()
+            .describe("On update, only reprice this variant (variant ID, SKU or option name)"),
+          store_id: z
+            .string()
+            .optional()
+            .describe("On update, only reprice this store instead of the default price and all stores"),
+          sku: z.string().optional().describe("SKU of the new item"),
+          barcode: z.string().optional().describe("Barcode of the new item"),
+          cost: z.number().min(0).optional().describe("Cost of the new item"),
+          ...confirmInputShape,
+        },
+        outputSchema: {
+          dryRun: z.boolean(),
+          applied: z.boolean(),
+          confirmationToken: z.string().nullable(),
+          change: itemWriteSchema,
+          warnings: z.array(z.string()),
+        },
       },
-      async ({ restaurant }) => {
-        const paymentTypes = await loyverseGetAll<PaymentType>(
-          restaurant as Restaurant,
-          "/payment_types",
-          "payment_types"
-        );
+      async (
+        {
+          restaurant,
+          item_id,
+          item_name,
+          category_id,
+          track_stock,
+          price,
+          variant,
+          store_id,
+          sku,
+          barcode,
+          cost,
+          confirm,
+          confirmation_token,
+        },
+        extra
+      ) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        assertScope(extra.authInfo, "write");
 
-        let text = `## Payment Types for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
+        const [stores, items] = await Promise.all([
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+          item_id
+            ? loyverseGet<Item>(
+                restaurant,
+                `/items/${encodeURIComponent(item_id)}`
+              ).then((i) => ({ data: [i], truncated: false }))
+            : loyverseGetAllWithMeta<Item>(
+                restaurant,
+                "/items",
+                "items",
+                {},
+                MAX_CATALOG_ITEMS
+              ),
+        ]);
+        const storeNames = new Map(stores.map((s) => [s.id, s.name]));
 
-        if (paymentTypes.length === 0) {
-          text += "No payment types found.";
+        let plan: ItemWritePlan;
+        if (item_id) {
+          plan = planItemUpdate(items.data[0], { item_name, category_id, track_stock });
+          if (price !== undefined) {
+            plan = addPriceChange(plan, price, { variant, store_id });
+          }
         } else {
-          for (const pt of paymentTypes) {
-            text += `- **${pt.name}** (${pt.type}) - ID: ${pt.id}\n`;
+          if (!item_name || price === undefined) {
+            throw new Error("item_name and price are required to create an item");
+          }
+          // Duplicate names and SKUs can only be ruled out against the whole catalog
+          if (items.truncated) {
+            throw new Error(
+              `${RESTAURANT_DISPLAY_NAMES[restaurant]} has more than ${MAX_CATALOG_ITEMS} items, so duplicates cannot be checked; create the item in Loyverse`
+            );
           }
+          plan = planItemCreate(
+            { item_name, category_id, track_stock, price, sku, barcode, cost },
+            stores.map((s) => s.id),
+            items.data
+          );
+        }
+
+        const planned = { restaurant: restaurant, plan, storeNames };
+        const caller = extra.authInfo?.clientId || "unknown";
+        const basis = getItemWriteBasis([planned]);
+        const token = getConfirmationToken(caller, basis);
+        const verb = plan.action === "create" ? "Create" : "Update";
+
+        const { warnings } = plan;
+
+        let text = `## ${verb} Item: ${plan.item_name} (${RESTAURANT_DISPLAY_NAMES[restaurant]})\n\n`;
+        for (const warning of warnings) {
+          text += `> **Warning:** ${warning}\n`;
+        }
+        if (warnings.length > 0) text += "\n";
+
+        if (!hasChanges(plan)) {
+          text += `Nothing to change: the item already has these values.\n`;
+          return {
+            content: [{ type: "text", text }],
+            structuredContent: {
+              dryRun: true,
+              applied: false,
+              confirmationToken: null,
+              change: describeItemWrite(planned),
+              warnings,
+            },
+          };
+        }
+
+        text += renderItemWrites([planned]);
+
+        if (!confirm) {
+          text += `**Dry run** - nothing has been changed.\n`;
+          text += `To apply, call again with the same inputs, \`confirm: true\` and \`confirmation_token: "${token}"\`.\n`;
+          return {
+            content: [{ type: "text", text }],
+            structuredContent: {
+              dryRun: true,
+              applied: false,
+              confirmationToken: token,
+              change: describeItemWrite(planned),
+              warnings,
+            },
+          };
         }
 
-        return { content: [{ type: "text", text }] };
+        const check = checkConfirmationToken(confirmation_token, caller, basis);
+        if (check !== "valid") {
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  text +
+                  describeRejectedToken(
+                    check,
+                    "the confirmation token does not match this change. The inputs differ from the dry run, the item was edited since, or the token was issued to another credential."
+                  ),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const saved = await loyversePost<Item>(restaurant, "/items", plan.payload);
+        text += `**Applied.** ${verb === "Create" ? "Created" : "Updated"} ${saved.item_name} (${saved.id}).\n`;
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            dryRun: false,
+            applied: true,
+            confirmationToken: token,
+            change: describeItemWrite({ ...planned, plan: { ...plan, item_id: saved.id } }),
+            warnings,
+          },
+        };
       }
     );
 
-    // Tool 11: Sales summary
+    // Tool 25: Update an item's price across restaurants
     server.registerTool(
-      "loyverse_sales_summary",
+      "loyverse_update_prices",
       {
-        title: "Sales Summary",
+        title: "Update Item Prices",
         description:
-          "Get aggregated sales summary for a restaurant for the last N days.",
+          "Set a fixed price for an item in one or several restaurants at once (bulk mode), e.g. the same combo across both Harvey's brands. The item is matched in each restaurant by SKU, barcode, item ID or exact name. Always call first without confirm: the dry run shows the current and new price per variant and store and returns a confirmation token. Then call again with the same inputs, confirm: true and the token to apply it. Requires the write scope.",
         inputSchema: {
-          restaurant: restaurantSchema.describe("Restaurant identifier"),
-          days: z
-            .number()
-            .int()
+          restaurants: z
+            .array(restaurantSchema)
             .min(1)
-            .max(90)
+            .describe("Restaurant IDs to update the item in"),
+          item: z.string().describe("SKU, barcode, item ID or exact item name to match in each restaurant"),
+          price: z.number().min(0).describe("New fixed price"),
+          variant: z
+            .string()
             .optional()
-            .describe("Number of days to summarize (default 7)"),
+            .describe("Only reprice this variant (variant ID, SKU or option name, e.g. 'Large')"),
+          store_id: z
+            .string()
+            .optional()
+            .describe("Only reprice this store (single restaurant only). Defaults to the default price and all stores."),
+          ...confirmInputShape,
+        },
+        outputSchema: {
+          dryRun: z.boolean(),
+          applied: z.boolean(),
+          confirmationToken: z.string().nullable(),
+          changes: z.array(itemWriteSchema),
+          unchanged: z.array(z.object({ restaurant: z.string(), item_name: z.string() })),
+          failed: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
+          unknown: z.array(
+            z.object({ restaurant: z.string(), name: z.string(), error: z.string() })
+          ),
         },
       },
-      async ({ restaurant, days }) => {
-        const numDays = days || 7;
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - numDays);
+      async ({ restaurants, item, price, variant, store_id, confirm, confirmation_token }, extra) => {
+        const restaurantList = restaurants;
+        for (const restaurant of restaurantList) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+        assertScope(extra.authInfo, "write");
 
-        const params: Record<string, string> = {
-          created_at_min: startDate.toISOString(),
-          created_at_max: endDate.toISOString(),
-        };
+        if (store_id && restaurantList.length > 1) {
+          throw new Error("store_id can only be used with a single restaurant");
+        }
 
-        const receipts = await loyverseGetAll<Receipt>(
-          restaurant as Restaurant,
-          "/receipts",
-          "receipts",
-          params,
-          1000
-        );
+        // Plan every restaurant before anything is written
+        const { results, failed } = await fanOutRestaurants(
+          restaurantList,
+          async (restaurant, signal) => {
+            const [items, stores] = await Promise.all([
+              loyverseGetAllWithMeta<Item>(
+                restaurant,
+                "/items",
+                "items",
+                {},
+                MAX_CATALOG_ITEMS,
+                signal
+              ),
+              loyverseGetAll<Store>(restaurant, "/stores", "stores", {}, undefined, signal),
+            ]);
 
-        const totalSales = receipts.reduce((sum, r) => sum + r.total_money, 0);
-        const totalTax = receipts.reduce(
-          (sum, r) => sum + (r.total_tax || 0),
-          0
+            // A match is only known to be unique when the whole catalog was searched
+            if (items.truncated) {
+              throw new Error(
+                `More than ${MAX_CATALOG_ITEMS} items in the catalog, so "${item}" cannot be matched safely`
+              );
+            }
+
+            const matches = findItems(items.data, item);
+            if (matches.length === 0) {
+              throw new Error(`No item matches "${item}"`);
+            }
+            if (matches.length > 1) {
+              throw new Error(
+                `"${item}" matches ${matches.length} items (${matches.map((m) => m.item_name).join(", ")}); use a SKU or item ID`
+              );
+            }
+
+            return {
+              restaurant,
+              plan: addPriceChange(planItemUpdate(matches[0], {}), price, { variant, store_id }),
+              storeNames: new Map(stores.map((s) => [s.id, s.name])),
+            };
+          }
         );
-        const avgTransaction =
-          receipts.length > 0 ? totalSales / receipts.length : 0;
 
-        // Group by day
-        const byDay: Record<string, { count: number; total: number }> = {};
-        for (const receipt of receipts) {
-          const day = receipt.receipt_date.split("T")[0];
-          if (!byDay[day]) byDay[day] = { count: 0, total: 0 };
-          byDay[day].count++;
-          byDay[day].total += receipt.total_money;
+        const planned = results.map((r) => r.value);
+        const changes = planned.filter((p) => hasChanges(p.plan));
+        const unchanged = planned
+          .filter((p) => !hasChanges(p.plan))
+          .map((p) => ({ restaurant: p.restaurant, item_name: p.plan.item_name }));
+        const caller = extra.authInfo?.clientId || "unknown";
+        const basis = getItemWriteBasis(changes);
+        const token = changes.length > 0 ? getConfirmationToken(caller, basis) : null;
+
+        let text = `## Update Prices: ${item}\n\n`;
+        text += changes.length > 0 ? renderItemWrites(changes) : `No prices to change.\n\n`;
+        for (const u of unchanged) {
+          text += `- **${RESTAURANT_DISPLAY_NAMES[u.restaurant]}:** ${u.item_name} already has this price\n`;
         }
+        if (unchanged.length > 0) text += "\n";
 
-        let text = `## Sales Summary for ${RESTAURANT_DISPLAY_NAMES[restaurant as Restaurant]}\n\n`;
-        text += `**Period:** Last ${numDays} days (${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()})\n\n`;
-        text += `### Overview\n`;
-        text += `- **Total Sales:** ${formatCurrency(totalSales)}\n`;
-        text += `- **Total Transactions:** ${receipts.length}\n`;
-        text += `- **Total Tax:** ${formatCurrency(totalTax)}\n`;
-        text += `- **Avg Transaction:** ${formatCurrency(avgTransaction)}\n\n`;
-
-        text += `### Daily Breakdown\n`;
-        const sortedDays = Object.entries(byDay).sort((a, b) =>
-          b[0].localeCompare(a[0])
+        if (failed.length > 0) {
+          text += `### Failed Restaurants\n`;
+          for (const f of failed) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+          text += "\n";
+        }
+
+        const output = (
+          applied: boolean,
+          writeFailures: typeof failed = [],
+          unknown: typeof failed = []
+        ) => ({
+          dryRun: !confirm,
+          applied,
+          confirmationToken: token,
+          changes: changes.map(describeItemWrite),
+          unchanged,
+          failed: [...failed, ...writeFailures],
+          unknown,
+        });
+
+        if (!token) {
+          return { content: [{ type: "text", text }], structuredContent: output(false) };
+        }
+
+        if (!confirm) {
+          text += `**Dry run** - nothing has been changed.\n`;
+          if (failed.length > 0) {
+            text += `Restaurants that failed above will be skipped.\n`;
+          }
+          text += `To apply, call again with the same inputs, \`confirm: true\` and \`confirmation_token: "${token}"\`.\n`;
+          return { content: [{ type: "text", text }], structuredContent: output(false) };
+        }
+
+        const check = checkConfirmationToken(confirmation_token, caller, basis);
+        if (check !== "valid") {
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  text +
+                  describeRejectedToken(
+                    check,
+                    "the confirmation token does not match these changes. The inputs differ from the dry run, an item was edited since, or the token was issued to another credential."
+                  ),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        // Writes run to completion instead of under the fan-out deadline: a POST
+        // aborted after it reached Loyverse may have been applied all the same
+        const settled = await Promise.allSettled(
+          changes.map((c) => loyversePost<Item>(c.restaurant, "/items", c.plan.payload))
         );
-        for (const [day, data] of sortedDays) {
-          text += `- **${day}:** ${formatCurrency(data.total)} (${data.count} transactions)\n`;
+        const applied: Restaurant[] = [];
+        const rejected: typeof failed = [];
+        const unknown: typeof failed = [];
+        settled.forEach((outcome, i) => {
+          const { restaurant } = changes[i];
+          if (outcome.status === "fulfilled") {
+            applied.push(restaurant);
+            return;
+          }
+          const failure = {
+            restaurant,
+            name: RESTAURANT_DISPLAY_NAMES[restaurant],
+            error: outcome.reason instanceof Error ? outcome.reason.message : "Unknown error",
+          };
+          (isRejectedWrite(outcome.reason) ? rejected : unknown).push(failure);
+        });
+
+        text += `**Applied** in ${applied.map((r) => RESTAURANT_DISPLAY_NAMES[r]).join(", ") || "no restaurants"}.\n`;
+        if (rejected.length > 0) {
+          text += `\n### Not Applied\n`;
+          for (const f of rejected) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
+        }
+        if (unknown.length > 0) {
+          text += `\n### Outcome Unknown\n`;
+          text += `Loyverse may have applied these; check the item in Loyverse before retrying.\n`;
+          for (const f of unknown) {
+            text += `- **${f.name}:** ${f.error}\n`;
+          }
         }
 
-        return { content: [{ type: "text", text }] };
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: output(applied.length > 0, rejected, unknown),
+        };
       }
     );
 
-    // Tool 12: Compare restaurants
+    // Tool 26: Adjust stock with an audit trail
     server.registerTool(
-      "loyverse_compare_restaurants",
+      "loyverse_adjust_stock",
       {
-        title: "Compare Restaurants",
+        title: "Adjust Stock",
         description:
-          "Compare sales across multiple or all restaurants for the last N days.",
+          "Adjust the stock level of one variant in a store through Loyverse's inventory endpoint, with a reason code: waste, transfer (optionally to another store of the same restaurant) or count_correction. Give either a change in units or the counted stock. Always call first without confirm: the dry run shows the stock before and after and returns a confirmation token. Then call again with the same inputs, confirm: true and the token to apply it. Every applied adjustment is logged to the audit trail with the caller's identity. Requires the write scope.",
         inputSchema: {
-          restaurants: z
-            .array(restaurantSchema)
+          restaurant: restaurantSchema.describe("Restaurant ID"),
+          variant: z.string().describe("Variant ID, SKU or barcode"),
+          store_id: z.string().describe("Store whose stock is adjusted"),
+          reason: z
+            .enum(["waste", "transfer", "count_correction"])
+            .describe("Why the stock changes"),
+          change: z
+            .number()
             .optional()
-            .describe(
-              "List of restaurant IDs to compare. If empty, compares all connected restaurants."
-            ),
+            .describe("Units added (positive) or removed (negative). Waste and outgoing transfers are negative."),
+          counted: z
+            .number()
+            .min(0)
+            .optional()
+            .describe("Counted stock to set, instead of change (for count corrections)"),
+          to_store_id: z
+            .string()
+            .optional()
+            .describe("For transfers between stores: the store receiving the units removed from store_id"),
+          note: z.string().max(500).optional().describe("Free-text note for the audit trail"),
+          ...confirmInputShape,
+        },
+        outputSchema: {
+          dryRun: z.boolean(),
+          applied: z.boolean(),
+          confirmationToken: z.string(),
+          restaurant: z.string(),
+          reason: z.string(),
+          note: z.string().nullable(),
+          changes: z.array(
+            z.object({
+              variant_id: z.string(),
+              item_name: z.string(),
+              variant_name: z.string(),
+              store_id: z.string(),
+              store_name: z.string(),
+              before: z.number(),
+              after: z.number(),
+            })
+          ),
+          warnings: z.array(z.string()),
+          auditId: z.string().nullable(),
+        },
+      },
+      async (
+        {
+          restaurant,
+          variant,
+          store_id,
+          reason,
+          change,
+          counted,
+          to_store_id,
+          note,
+          confirm,
+          confirmation_token,
+        },
+        extra
+      ) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        assertScope(extra.authInfo, "write");
+
+        const [items, stores] = await Promise.all([
+          loyverseGetAllWithMeta<Item>(
+            restaurant,
+            "/items",
+            "items",
+            {},
+            MAX_CATALOG_ITEMS
+          ),
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+        ]);
+        const match = findVariant(items.data, variant);
+        if (!match) {
+          const searched = items.truncated
+            ? ` (only the first ${MAX_CATALOG_ITEMS} catalog items were searched)`
+            : "";
+          throw new Error(
+            `No variant with ID, SKU or barcode "${variant}" in ${RESTAURANT_DISPLAY_NAMES[restaurant]}${searched}`
+          );
+        }
+
+        const storeNames = new Map(stores.map((s) => [s.id, s.name]));
+        const levels = await loyverseGetAll<InventoryLevel>(
+          restaurant,
+          "/inventory",
+          "inventory_levels",
+          { variant_ids: match.variant.variant_id }
+        );
+        const adjustment = planStockAdjustment(
+          resolveInventory(levels, items.data, storeNames),
+          {
+            variant_id: match.variant.variant_id,
+            item_name: match.item.item_name,
+            variant_name: getVariantName(match.variant),
+          },
+          storeNames,
+          { reason, note, store_id, change, counted, to_store_id }
+        );
+
+        // Tied to the stock levels seen in the dry run
+        const caller = extra.authInfo?.clientId || "unknown";
+        const basis = [restaurant, adjustment];
+        const token = getConfirmationToken(caller, basis);
+
+        let text = `## Stock Adjustment: ${match.item.item_name} (${getVariantName(match.variant)})\n\n`;
+        text += `**Restaurant:** ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n`;
+        text += `**Reason:** ${STOCK_REASON_LABELS[reason]}\n`;
+        if (note) text += `**Note:** ${note}\n`;
+        text += "\n";
+        for (const warning of adjustment.warnings) {
+          text += `> **Warning:** ${warning}\n`;
+        }
+        if (adjustment.warnings.length > 0) text += "\n";
+
+        text += `| Store | Before | After | Change |\n`;
+        text += `|-------|--------|-------|--------|\n`;
+        for (const c of adjustment.changes) {
+          const delta = c.after - c.before;
+          text += `| ${c.store_name} | ${c.before} | ${c.after} | ${delta >= 0 ? "+" : ""}${delta} |\n`;
+        }
+        text += "\n";
+
+        const output = (applied: boolean, auditId: string | null) => ({
+          dryRun: !applied,
+          applied,
+          confirmationToken: token,
+          restaurant,
+          reason,
+          note: adjustment.note,
+          changes: adjustment.changes,
+          warnings: adjustment.warnings,
+          auditId,
+        });
+
+        if (!confirm) {
+          text += `**Dry run** - stock has not been changed.\n`;
+          text += `To apply, call again with the same inputs, \`confirm: true\` and \`confirmation_token: "${token}"\`.\n`;
+          return { content: [{ type: "text", text }], structuredContent: output(false, null) };
+        }
+
+        const check = checkConfirmationToken(confirmation_token, caller, basis);
+        if (check !== "valid") {
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  text +
+                  describeRejectedToken(
+                    check,
+                    "the confirmation token does not match this adjustment. The inputs differ from the dry run, the stock level changed since, or the token was issued to another credential."
+                  ),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const record = await applyStockAdjustment(restaurant, adjustment, caller);
+
+        text += `**Applied** and logged to the audit trail (${String(record._id)}) as ${record.caller}.\n`;
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: output(true, String(record._id)),
+        };
+      }
+    );
+
+    // Tool 27: Customer insights with RFM segments
+    server.registerTool(
+      "loyverse_customer_insights",
+      {
+        title: "Customer Insights",
+        description:
+          "Join a restaurant's customers to their receipts over the last N days and score recency, frequency and monetary value (RFM, 1-5 each). Returns customer counts and spend per segment (champions, loyal, at risk, new, promising, needs attention, hibernating), the top customers, and lapsed regulars: repeat customers absent much longer than their usual gap between visits. Useful for loyalty campaigns. Names and contact details are redacted unless the credential has the pii scope.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant ID"),
           days: z
+            .number()
+            .int()
+            .min(7)
+            .max(180)
+            .optional()
+            .describe("Number of days of receipts to analyze (default 90)"),
+          segment: z
+            .enum(CUSTOMER_SEGMENTS)
+            .optional()
+            .describe("Only list top customers from this segment"),
+          limit: z
             .number()
             .int()
             .min(1)
-            .max(90)
+            .max(100)
             .optional()
-            .describe("Number of days to compare (default 7)"),
+            .describe("Max customers per list (default 10)"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          period: periodSchema,
+          coverage: coverageSchema,
+          customersAnalyzed: z.number(),
+          customerSales: z.number(),
+          shareOfNetSales: z.number(),
+          segments: z.array(
+            z.object({
+              segment: z.string(),
+              customers: z.number(),
+              netSpent: z.number(),
+              shareOfSpend: z.number(),
+            })
+          ),
+          topCustomers: z.array(customerStatsSchema),
+          lapsedRegulars: z.array(customerStatsSchema),
         },
       },
-      async ({ restaurants, days }) => {
-        const numDays = days || 7;
-        const endDate = new Date();
-        const startDate = new Date();
-        startDate.setDate(startDate.getDate() - numDays);
-
-        const params: Record<string, string> = {
-          created_at_min: startDate.toISOString(),
-          created_at_max: endDate.toISOString(),
-        };
+      async ({ restaurant, days, segment, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency } = getRestaurantConfig(restaurant);
+        const numDays = days || 90;
+        const maxCustomers = limit || 10;
 
-        // Use provided restaurants or all connected ones
-        const restaurantList =
-          restaurants && restaurants.length > 0
-            ? (restaurants as Restaurant[])
-            : RESTAURANTS.filter(isTokenConfigured);
+        const period = getRestaurantBusinessDayRange(restaurant, numDays);
+        const [{ receipts, coverage }, customers] = await Promise.all([
+          fetchReceipts(restaurant, {
+            created_at_min: period.from,
+            created_at_max: period.to,
+          }),
+          loyverseGetAll<Customer>(restaurant, "/customers", "customers", {}, 10000),
+        ]);
 
-        const results: Array<{
-          restaurant: Restaurant;
-          name: string;
-          totalSales: number;
-          transactions: number;
-          avgTransaction: number;
-        }> = [];
+        const redact = getRedactor(hasScope(extra.authInfo, "pii"));
+        const stats = buildCustomerStats(receipts, customers, new Date()).map((c) =>
+          redactCustomerStats(c, redact)
+        );
+        const segments = summarizeSegments(stats);
+        const lapsedRegulars = findLapsedRegulars(stats).slice(0, maxCustomers);
+        const topCustomers = stats
+          .filter((c) => !segment || c.segment === segment)
+          .slice(0, maxCustomers);
 
-        for (const restaurant of restaurantList) {
-          try {
-            const receipts = await loyverseGetAll<Receipt>(
-              restaurant,
-              "/receipts",
-              "receipts",
-              params,
-              1000
-            );
+        const { netSales } = summarizeSales(receipts);
+        const customerSales = stats.reduce((sum, c) => sum + c.netSpent, 0);
+        const shareOfNetSales = netSales > 0 ? (customerSales / netSales) * 100 : 0;
 
-            const totalSales = receipts.reduce(
-              (sum, r) => sum + r.total_money,
-              0
-            );
-            const avgTransaction =
-              receipts.length > 0 ? totalSales / receipts.length : 0;
+        let text = `## Customer Insights for ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n\n`;
+        text += `**Period:** ${formatBusinessDayRange(period)}\n`;
+        text += `**Coverage:** ${describeCoverage(coverage)}\n`;
+        text += `**Customers with purchases:** ${stats.length}\n`;
+        text += `**Customer sales:** ${formatCurrency(customerSales, currency)} (${shareOfNetSales.toFixed(1)}% of net sales)\n\n`;
 
-            results.push({
-              restaurant,
-              name: RESTAURANT_DISPLAY_NAMES[restaurant],
-              totalSales,
-              transactions: receipts.length,
-              avgTransaction,
-            });
-          } catch (error) {
-            results.push({
-              restaurant,
-              name: RESTAURANT_DISPLAY_NAMES[restaurant],
-              totalSales: 0,
-              transactions: 0,
-              avgTransaction: 0,
-            });
+        if (stats.length === 0) {
+          text += `No receipts in this period are linked to a customer.\n`;
+        } else {
+          text += `### Segments\n\n`;
+          text += `| Segment | Customers | Net Spent | % of Spend |\n`;
+          text += `|---------|-----------|-----------|------------|\n`;
+          for (const s of segments) {
+            text += `| ${CUSTOMER_SEGMENT_LABELS[s.segment]} | ${s.customers} | ${formatCurrency(s.netSpent, currency)} | ${s.shareOfSpend.toFixed(1)}% |\n`;
           }
+
+          text += `\n### Top Customers${segment ? ` (${CUSTOMER_SEGMENT_LABELS[segment]})` : ""}\n\n`;
+          text += renderCustomerTable(topCustomers, currency);
+
+          text += `\n### Lapsed Regulars\n\n`;
+          text +=
+            lapsedRegulars.length > 0
+              ? renderCustomerTable(lapsedRegulars, currency)
+              : `No regulars are overdue for a visit.\n`;
         }
 
-        // Sort by total sales descending
-        results.sort((a, b) => b.totalSales - a.totalSales);
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            period,
+            coverage,
+            customersAnalyzed: stats.length,
+            customerSales,
+            shareOfNetSales,
+            segments,
+            topCustomers,
+            lapsedRegulars,
+          },
+        };
+      }
+    );
+
+    // Tool 28: One customer's order history
+    server.registerTool(
+      "loyverse_customer_history",
+      {
+        title: "Customer Order History",
+        description:
+          "Show a single customer's order history over the last N days, with visit frequency, spend, RFM segment and favorite items. Find the customer by ID, or by email or phone number with the pii scope. Names and contact details are redacted unless the credential has the pii scope.",
+        inputSchema: {
+          restaurant: restaurantSchema.describe("Restaurant ID"),
+          customer: z
+            .string()
+            .describe("Customer ID, or email or phone number (requires the pii scope)"),
+          days: z
+            .number()
+            .int()
+            .min(7)
+            .max(180)
+            .optional()
+            .describe("Number of days of history (default 90)"),
+          limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(100)
+            .optional()
+            .describe("Max orders to list (default 10)"),
+        },
+        outputSchema: {
+          restaurant: z.string(),
+          currency: z.string(),
+          period: periodSchema,
+          coverage: coverageSchema,
+          customer: z.object({
+            id: z.string(),
+            name: z.string(),
+            email: z.string().nullish(),
+            phone_number: z.string().nullish(),
+          }),
+          stats: customerStatsSchema.nullable(),
+          favoriteItems: z.array(
+            z.object({
+              item_name: z.string(),
+              quantity: z.number(),
+              orders: z.number(),
+              spent: z.number(),
+            })
+          ),
+          orders: z.array(
+            z.object({
+              receipt_number: z.string(),
+              receipt_type: z.string(),
+              receipt_date: z.string(),
+              cancelled_at: z.string().nullish(),
+              store_name: z.string(),
+              total_money: z.number(),
+              items: z.array(z.object({ item_name: z.string(), quantity: z.number() })),
+            })
+          ),
+        },
+      },
+      async ({ restaurant, customer: query, days, limit }, extra) => {
+        assertRestaurantAccess(extra.authInfo, restaurant);
+        const { currency, timezone } = getRestaurantConfig(restaurant);
+        const numDays = days || 90;
 
-        const grandTotal = results.reduce((sum, r) => sum + r.totalSales, 0);
-        const totalTransactions = results.reduce(
-          (sum, r) => sum + r.transactions,
-          0
+        const customers = await loyverseGetAll<Customer>(
+          restaurant,
+          "/customers",
+          "customers",
+          {},
+          10000
         );
+        let customer = customers.find((c) => c.id === query.trim());
+        if (!customer) {
+          // Matching on contact details would confirm them to callers who only see them redacted
+          assertScope(extra.authInfo, "pii");
 
-        let text = `## Restaurant Comparison\n\n`;
-        text += `**Period:** Last ${numDays} days (${startDate.toLocaleDateString()} - ${endDate.toLocaleDateString()})\n\n`;
+          // Phone numbers match on their last 10 digits, so local and +63 formats agree
+          const phoneTail = (value?: string) => (value || "").replace(/\D/g, "").slice(-10);
+          const needle = query.trim().toLowerCase();
+          customer = customers.find(
+            (c) =>
+              c.email?.toLowerCase() === needle ||
+              (phoneTail(query).length >= 7 && phoneTail(c.phone_number).endsWith(phoneTail(query)))
+          );
+        }
+        if (!customer) {
+          throw new Error(
+            `No customer with ID, email or phone "${query}" in ${RESTAURANT_DISPLAY_NAMES[restaurant]}`
+          );
+        }
 
-        text += `### Rankings by Sales\n\n`;
-        text += `| Rank | Restaurant | Sales | Transactions | Avg Trans | % of Total |\n`;
-        text += `|------|------------|-------|--------------|-----------|------------|\n`;
+        const period = getRestaurantBusinessDayRange(restaurant, numDays);
+        const [{ receipts, coverage }, stores] = await Promise.all([
+          fetchReceipts(restaurant, {
+            created_at_min: period.from,
+            created_at_max: period.to,
+          }),
+          loyverseGetAll<Store>(restaurant, "/stores", "stores"),
+        ]);
+        const storeNames = new Map(stores.map((s) => [s.id, s.name]));
 
-        results.forEach((r, i) => {
-          const pct =
-            grandTotal > 0 ? ((r.totalSales / grandTotal) * 100).toFixed(1) : 0;
-          text += `| ${i + 1} | ${r.name} | ${formatCurrency(r.totalSales)} | ${r.transactions} | ${formatCurrency(r.avgTransaction)} | ${pct}% |\n`;
-        });
+        // Scored against everyone else so the segment matches loyverse_customer_insights
+        const stats =
+          buildCustomerStats(receipts, customers, new Date()).find(
+            (c) => c.customer_id === customer.id
+          ) || null;
+        const history = receipts
+          .filter((r) => r.customer_id === customer.id)
+          .sort((a, b) => b.receipt_date.localeCompare(a.receipt_date));
+        const favoriteItems = getFavoriteItems(history);
+        const orders = history.slice(0, limit || 10).map((r) => ({
+          receipt_number: r.receipt_number,
+          receipt_type: r.receipt_type || "SALE",
+          receipt_date: r.receipt_date,
+          cancelled_at: r.cancelled_at,
+          store_name: r.store_id ? storeNames.get(r.store_id) || r.store_id : "-",
+          total_money: r.total_money,
+          items: (r.line_items || []).map((line) => ({
+            item_name: line.item_name,
+            quantity: line.quantity,
+          })),
+        }));
 
-        text += `\n### Totals\n`;
-        text += `- **Grand Total Sales:** ${formatCurrency(grandTotal)}\n`;
-        text += `- **Total Transactions:** ${totalTransactions}\n`;
-        text += `- **Avg per Restaurant:** ${formatCurrency(grandTotal / results.length)}\n`;
+        const redact = getRedactor(hasScope(extra.authInfo, "pii"));
+        const customerName = redact.name(customer.name);
+
+        let text = `## Order History: ${customerName || "Unknown"}\n\n`;
+        text += `**Restaurant:** ${RESTAURANT_DISPLAY_NAMES[restaurant]}\n`;
+        text += `**Period:** ${formatBusinessDayRange(period)}\n`;
+        if (coverage.truncated) text += `**Coverage:** ${describeCoverage(coverage)}\n`;
+        text += "\n";
+
+        if (!stats) {
+          text += `No purchases in this period.\n`;
+        } else {
+          text += `- **Segment:** ${CUSTOMER_SEGMENT_LABELS[stats.segment]} (R${stats.recency} F${stats.frequency} M${stats.monetary})\n`;
+          text += `- **Visits:** ${stats.visits}`;
+          if (stats.avgDaysBetweenVisits !== null) {
+            text += `, about every ${stats.avgDaysBetweenVisits.toFixed(1)} days`;
+          }
+          text += "\n";
+          text += `- **Net spent:** ${formatCurrency(stats.netSpent, currency)} (avg ${formatCurrency(stats.avgTicket, currency)} per visit)\n`;
+          text += `- **Last visit:** ${formatDate(stats.lastVisit, timezone)} (${formatDaysAgo(stats.daysSinceLastVisit)})\n`;
+
+          text += `\n### Favorite Items\n\n`;
+          text += `| Item | Quantity | Orders | Spent |\n`;
+          text += `|------|----------|--------|-------|\n`;
+          for (const item of favoriteItems) {
+            text += `| ${item.item_name} | ${item.quantity} | ${item.orders} | ${formatCurrency(item.spent, currency)} |\n`;
+          }
 
-        return { content: [{ type: "text", text }] };
+          text += `\n### Recent Orders\n\n`;
+          text += `| Date | Receipt | Type | Store | Items | Total |\n`;
+          text += `|------|---------|------|-------|-------|-------|\n`;
+          for (const [i, order] of orders.entries()) {
+            const items = order.items.map((line) => `${line.quantity}x ${line.item_name}`).join(", ");
+            text += `| ${formatDate(order.receipt_date, timezone)} | ${order.receipt_number} | ${describeReceiptStatus(history[i])} | ${order.store_name} | ${items} | ${formatCurrency(order.total_money, currency)} |\n`;
+          }
+          if (history.length > orders.length) {
+            text += `\n${history.length - orders.length} older orders not shown.\n`;
+          }
+        }
+
+        return {
+          content: [{ type: "text", text }],
+          structuredContent: {
+            restaurant,
+            currency,
+            period,
+            coverage,
+            customer: {
+              id: customer.id,
+              name: customerName,
+              email: redact.email(customer.email),
+              phone_number: redact.phone(customer.phone_number),
+            },
+            stats: stats && redactCustomerStats(stats, redact),
+            favoriteItems,
+            orders,
+          },
+        };
       }
     );
 
@@ -704,7 +4534,7 @@ const handler = createMcpHandler(
     // RAG Knowledge Base Tools
     // ============================================
 
-    // Tool 13: RAG Search
+    // Tool 29: RAG Search
     server.registerTool(
       "rag_search",
       {
@@ -728,13 +4558,31 @@ const handler = createMcpHandler(
             .optional()
             .describe("Max results to return (default 10)"),
         },
+        outputSchema: {
+          query: z.string(),
+          results: z.array(
+            z.object({
+              restaurant: z.string(),
+              csv_type: z.string(),
+              filename: z.string(),
+              row_index: z.number(),
+              score: z.number(),
+              text: z.string(),
+            })
+          ),
+        },
       },
-      async ({ query, restaurant, csv_type, limit }) => {
+      async ({ query, restaurant, csv_type, limit }, extra) => {
+        if (restaurant) {
+          assertRestaurantAccess(extra.authInfo, restaurant);
+        }
+
         try {
           const results = await hybridSearch(
             query,
             {
               restaurant: restaurant as string | undefined,
+              restaurants: getAllowedRestaurants(extra.authInfo),
               csv_type: csv_type as "products" | "sales" | "inventory" | undefined,
             },
             limit || 10
@@ -748,6 +4596,7 @@ const handler = createMcpHandler(
                   text: `## Knowledge Base Search Results\n\nNo results found for "${query}".\n\nTip: Make sure you have uploaded CSV files at /upload first.`,
                 },
               ],
+              structuredContent: { query, results: [] },
             };
           }
 
@@ -757,16 +4606,29 @@ const handler = createMcpHandler(
 
           for (let i = 0; i < results.length; i++) {
             const result = results[i];
-            const restaurantName = result.metadata.restaurant
-              .replace(/_/g, " ")
-              .replace(/\b\w/g, (c) => c.toUpperCase());
+            const restaurantName =
+              RESTAURANT_DISPLAY_NAMES[result.metadata.restaurant] ||
+              result.metadata.restaurant;
 
             text += `### ${i + 1}. ${restaurantName} (${result.metadata.csv_type})\n`;
             text += `${result.text}\n`;
             text += `*Source: ${result.metadata.filename}, row ${result.metadata.row_index + 1}*\n\n`;
           }
 
-          return { content: [{ type: "text", text }] };
+          return {
+            content: [{ type: "text", text }],
+            structuredContent: {
+              query,
+              results: results.map((result) => ({
+                restaurant: result.metadata.restaurant,
+                csv_type: result.metadata.csv_type,
+                filename: result.metadata.filename,
+                row_index: result.metadata.row_index,
+                score: result.score,
+                text: result.text,
+              })),
+            },
+          };
         } catch (error) {
           const message = error instanceof Error ? error.message : "Unknown error";
           return {
@@ -776,12 +4638,13 @@ const handler = createMcpHandler(
                 text: `## Knowledge Base Search Error\n\nFailed to search: ${message}\n\nMake sure MongoDB is connected and indexes are configured.`,
               },
             ],
+            isError: true,
           };
         }
       }
     );
 
-    // Tool 14: List RAG Documents
+    // Tool 30: List RAG Documents
     server.registerTool(
       "rag_list_documents",
       {
@@ -789,10 +4652,23 @@ const handler = createMcpHandler(
         description:
           "List all uploaded CSV files in the knowledge base with their metadata.",
         inputSchema: {},
+        outputSchema: {
+          documents: z.array(
+            z.object({
+              filename: z.string(),
+              restaurant: z.string(),
+              csv_type: z.string(),
+              row_count: z.number(),
+              uploaded_at: z.string(),
+            })
+          ),
+        },
       },
-      async () => {
+      async (_args, extra) => {
         try {
-          const documents = await listDocuments();
+          const documents = await listDocuments(
+            getAllowedRestaurants(extra.authInfo)
+          );
 
           if (documents.length === 0) {
             return {
@@ -802,6 +4678,7 @@ const handler = createMcpHandler(
                   text: `## Knowledge Base Documents\n\nNo documents uploaded yet.\n\nTo upload CSV files, visit /upload in your browser.`,
                 },
               ],
+              structuredContent: { documents: [] },
             };
           }
 
@@ -811,14 +4688,16 @@ const handler = createMcpHandler(
           text += `|----------|------------|------|------|----------|\n`;
 
           for (const doc of documents) {
-            const restaurantName = doc.restaurant
-              .replace(/_/g, " ")
-              .replace(/\b\w/g, (c) => c.toUpperCase());
+            const restaurantName =
+              RESTAURANT_DISPLAY_NAMES[doc.restaurant] || doc.restaurant;
             const uploadDate = new Date(doc.uploaded_at).toLocaleDateString();
             text += `| ${doc.filename} | ${restaurantName} | ${doc.csv_type} | ${doc.row_count} | ${uploadDate} |\n`;
           }
 
-          return { content: [{ type: "text", text }] };
+          return {
+            content: [{ type: "text", text }],
+            structuredContent: { documents },
+          };
         } catch (error) {
           const message = error instanceof Error ? error.message : "Unknown error";
           return {
@@ -828,25 +4707,35 @@ const handler = createMcpHandler(
                 text: `## Knowledge Base Error\n\nFailed to list documents: ${message}\n\nMake sure MongoDB is connected.`,
               },
             ],
+            isError: true,
           };
         }
       }
     );
 
-    // Tool 15: Delete RAG Document
+    // Tool 31: Delete RAG Document
     server.registerTool(
       "rag_delete_document",
       {
         title: "Delete Knowledge Base Document",
         description:
-          "Delete all chunks for a specific uploaded CSV file from the knowledge base. This is a destructive operation.",
+          "Delete all chunks for a specific uploaded CSV file from the knowledge base. This is a destructive operation and requires the write scope.",
         inputSchema: {
           filename: z.string().describe("The filename to delete (e.g., 'products.csv')"),
         },
+        outputSchema: {
+          filename: z.string(),
+          deletedCount: z.number(),
+        },
       },
-      async ({ filename }) => {
+      async ({ filename }, extra) => {
+        assertScope(extra.authInfo, "write");
+
         try {
-          const deletedCount = await deleteByFilename(filename);
+          const deletedCount = await deleteByFilename(
+            filename,
+            getAllowedRestaurants(extra.authInfo)
+          );
 
           let text = `## Delete Document Result\n\n`;
 
@@ -858,7 +4747,10 @@ const handler = createMcpHandler(
             text += `- Removed ${deletedCount} chunks from the knowledge base.`;
           }
 
-          return { content: [{ type: "text", text }] };
+          return {
+            content: [{ type: "text", text }],
+            structuredContent: { filename, deletedCount },
+          };
         } catch (error) {
           const message = error instanceof Error ? error.message : "Unknown error";
           return {
@@ -868,6 +4760,7 @@ const handler = createMcpHandler(
                 text: `## Delete Error\n\nFailed to delete document: ${message}`,
               },
             ],
+            isError: true,
           };
         }
       }
@@ -881,4 +4774,9 @@ const handler = createMcpHandler(
   }
 );
 
-export { handler as GET, handler as POST };
+// Every request must carry a bearer token from MCP_AUTH_TOKENS
+const authHandler = withMcpAuth(handler, verifyBearerToken, {
+  required: true,
+});
+
+export { authHandler as GET, authHandler as POST };
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RESTAURANTS, isTokenConfigured } from "@/lib/loyverse";
+import { syncAllReceipts } from "@/lib/sync";
+import { tokensMatch } from "@/lib/auth";
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/**
+ * Scheduled receipt sync (see crons in vercel.json).
+ * Vercel Cron sends CRON_SECRET as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const authorization = request.headers.get("authorization") || "";
+  if (!CRON_SECRET || !tokensMatch(authorization, `Bearer ${CRON_SECRET}`)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const results = await syncAllReceipts(RESTAURANTS.filter(isTokenConfigured));
+    return NextResponse.json({ success: true, results });
+  } catch (error) {
+    console.error("Sync error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
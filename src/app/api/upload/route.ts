@@ -3,7 +3,9 @@ import Papa from "papaparse";
 import { generateEmbeddings } from "@/lib/embeddings";
 import { insertChunks, deleteByFilename } from "@/lib/rag";
 import { DocumentChunk } from "@/lib/mongodb";
-import { RESTAURANTS, Restaurant } from "@/lib/loyverse";
+import { RESTAURANTS, RESTAURANT_DISPLAY_NAMES } from "@/lib/loyverse";
+import { redactRow } from "@/lib/redaction";
+import { assertRestaurantAccess, assertScope, verifyBearerToken } from "@/lib/auth";
 
 /**
  * CSV type categories:
@@ -51,14 +53,16 @@ function formatCurrency(value: string): string | null {
 }
 
 /**
- * Convert a CSV row to a searchable text chunk based on CSV type
+ * Convert a CSV row to a searchable text chunk based on CSV type.
+ * Personal data is redacted first, since chunks are searchable by any caller.
  */
 function rowToText(
-  row: Record<string, string>,
+  rawRow: Record<string, string>,
   csvType: CsvType,
   restaurant: string
 ): string {
-  const restaurantDisplay = restaurant.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+  const row = redactRow(rawRow);
+  const restaurantDisplay = RESTAURANT_DISPLAY_NAMES[restaurant] || restaurant;
   const parts: string[] = [`[${restaurantDisplay}]`];
 
   switch (csvType) {
@@ -124,7 +128,22 @@ function rowToText(
   return parts.join(" | ");
 }
 
+function getBearerToken(request: NextRequest): string | undefined {
+  const match = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i);
+  return match?.[1];
+}
+
+/**
+ * Upload a CSV into the knowledge base for one restaurant.
+ * Takes the same bearer credentials as the MCP endpoint; the credential needs
+ * access to the restaurant and the write scope.
+ */
 export async function POST(request: NextRequest) {
+  const authInfo = verifyBearerToken(request, getBearerToken(request));
+  if (!authInfo) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -143,13 +162,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!restaurant || !RESTAURANTS.includes(restaurant as Restaurant)) {
+    if (!restaurant || !RESTAURANTS.includes(restaurant)) {
       return NextResponse.json(
         { error: `Invalid restaurant. Must be one of: ${RESTAURANTS.join(", ")}` },
         { status: 400 }
       );
     }
 
+    try {
+      assertRestaurantAccess(authInfo, restaurant);
+      assertScope(authInfo, "write");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Access denied";
+      return NextResponse.json({ error: message }, { status: 403 });
+    }
+
     // Read file content
     const fileContent = await file.text();
     const filename = file.name;
@@ -185,8 +212,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Delete existing entries for this file (allows re-uploading)
-    await deleteByFilename(filename);
+    // Delete this restaurant's existing entries for the file (allows re-uploading)
+    await deleteByFilename(filename, [restaurant]);
 
     // Convert rows to text chunks
     const uploadedAt = new Date().toISOString();
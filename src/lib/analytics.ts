@@ -0,0 +1,500 @@
+import { Receipt, Item, Category, PaymentType, Employee, getLocalDateParts } from "./loyverse";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SalesTotals {
+  grossSales: number;
+  refunds: number;
+  netSales: number;
+  cancelledSales: number;
+  transactions: number;
+  refundCount: number;
+  cancelledCount: number;
+  totalTax: number;
+  avgTransaction: number;
+}
+
+export function isCancelled(receipt: Receipt): boolean {
+  return !!receipt.cancelled_at;
+}
+
+export function isRefund(receipt: Receipt): boolean {
+  return receipt.receipt_type === "REFUND";
+}
+
+/**
+ * Split receipts into gross sales, refunds and cancelled receipts.
+ * Net sales are gross sales minus refunds; cancelled receipts count towards
+ * neither, and tax is net of refunds. The average ticket covers sales only.
+ */
+export function summarizeSales(receipts: Receipt[]): SalesTotals {
+  const totals = {
+    grossSales: 0,
+    refunds: 0,
+    netSales: 0,
+    cancelledSales: 0,
+    transactions: 0,
+    refundCount: 0,
+    cancelledCount: 0,
+    totalTax: 0,
+    avgTransaction: 0,
+  };
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt)) {
+      totals.cancelledSales += receipt.total_money;
+      totals.cancelledCount++;
+    } else if (isRefund(receipt)) {
+      totals.refunds += receipt.total_money;
+      totals.refundCount++;
+      totals.totalTax -= receipt.total_tax || 0;
+    } else {
+      totals.grossSales += receipt.total_money;
+      totals.transactions++;
+      totals.totalTax += receipt.total_tax || 0;
+    }
+  }
+
+  totals.netSales = totals.grossSales - totals.refunds;
+  totals.avgTransaction =
+    totals.transactions > 0 ? totals.grossSales / totals.transactions : 0;
+  return totals;
+}
+
+export interface ItemSales {
+  item_id: string | null;
+  item_name: string;
+  category: string;
+  quantity: number;
+  revenue: number;
+  receipts: number;
+}
+
+export interface CategorySales {
+  category: string;
+  quantity: number;
+  revenue: number;
+  items: number;
+  shareOfRevenue: number;
+}
+
+export interface ItemSalesReport {
+  items: ItemSales[];
+  categories: CategorySales[];
+  totalQuantity: number;
+  totalRevenue: number;
+}
+
+const UNCATEGORIZED = "Uncategorized";
+
+/**
+ * Aggregate receipt line items per item and roll revenue up by category.
+ * Items are matched by item_id, falling back to the line item name for
+ * deleted or custom items. Refunded lines are subtracted and cancelled
+ * receipts skipped.
+ */
+export function aggregateItemSales(
+  receipts: Receipt[],
+  items: Item[],
+  categories: Category[]
+): ItemSalesReport {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+
+  const byItem = new Map<string, ItemSales & { receiptNumbers: Set<string> }>();
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt)) continue;
+    const sign = isRefund(receipt) ? -1 : 1;
+
+    for (const line of receipt.line_items || []) {
+      const key = line.item_id || `name:${line.item_name}`;
+      let entry = byItem.get(key);
+
+      if (!entry) {
+        const item = line.item_id ? itemsById.get(line.item_id) : undefined;
+        const category =
+          (item?.category_id && categoryNames.get(item.category_id)) || UNCATEGORIZED;
+        entry = {
+          item_id: line.item_id || null,
+          item_name: item?.item_name || line.item_name,
+          category,
+          quantity: 0,
+          revenue: 0,
+          receipts: 0,
+          receiptNumbers: new Set(),
+        };
+        byItem.set(key, entry);
+      }
+
+      entry.quantity += sign * line.quantity;
+      entry.revenue += sign * line.total_money;
+      if (sign > 0) entry.receiptNumbers.add(receipt.receipt_number);
+    }
+  }
+
+  const itemSales: ItemSales[] = Array.from(byItem.values())
+    .map(({ receiptNumbers, ...entry }) => ({ ...entry, receipts: receiptNumbers.size }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  const totalQuantity = itemSales.reduce((sum, i) => sum + i.quantity, 0);
+  const totalRevenue = itemSales.reduce((sum, i) => sum + i.revenue, 0);
+
+  const byCategory = new Map<string, CategorySales>();
+  for (const item of itemSales) {
+    let entry = byCategory.get(item.category);
+    if (!entry) {
+      entry = { category: item.category, quantity: 0, revenue: 0, items: 0, shareOfRevenue: 0 };
+      byCategory.set(item.category, entry);
+    }
+    entry.quantity += item.quantity;
+    entry.revenue += item.revenue;
+    entry.items++;
+  }
+
+  const categorySales = Array.from(byCategory.values())
+    .map((c) => ({
+      ...c,
+      shareOfRevenue: totalRevenue > 0 ? (c.revenue / totalRevenue) * 100 : 0,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+
+  return { items: itemSales, categories: categorySales, totalQuantity, totalRevenue };
+}
+
+export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export interface HeatmapCell {
+  weekday: string;
+  hour: number;
+  count: number;
+  revenue: number;
+}
+
+export interface SalesHeatmap {
+  counts: number[][]; // [weekday][hour], Monday first
+  revenue: number[][];
+  transactions: number;
+  totalRevenue: number;
+  peaks: HeatmapCell[];
+}
+
+/**
+ * Weekday (0 = Monday) of the business day a timestamp belongs to, and its local clock hour.
+ * With a 3am cutoff, a 1am Saturday sale lands in the Friday row at hour 1.
+ */
+export function getLocalWeekdayHour(
+  dateString: string,
+  timeZone: string,
+  cutoffHour: number = 0
+): { weekday: number; hour: number } {
+  const shifted = new Date(new Date(dateString).getTime() - cutoffHour * HOUR_MS);
+  const { hour, weekday } = getLocalDateParts(shifted, timeZone);
+  return { weekday, hour: (hour + cutoffHour) % 24 };
+}
+
+/**
+ * Bin sales into a weekday x hour matrix of transaction counts and revenue.
+ * Refunds and cancelled receipts are left out, so the matrix reflects customer traffic.
+ */
+export function buildSalesHeatmap(
+  receipts: Receipt[],
+  timeZone: string,
+  cutoffHour: number = 0,
+  peakCount: number = 5
+): SalesHeatmap {
+  const counts = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+  const revenue = WEEKDAYS.map(() => new Array<number>(24).fill(0));
+
+  const sales = receipts.filter((r) => !isCancelled(r) && !isRefund(r));
+
+  for (const receipt of sales) {
+    const { weekday, hour } = getLocalWeekdayHour(receipt.receipt_date, timeZone, cutoffHour);
+    counts[weekday][hour]++;
+    revenue[weekday][hour] += receipt.total_money;
+  }
+
+  const cells: HeatmapCell[] = [];
+  WEEKDAYS.forEach((weekday, d) => {
+    for (let hour = 0; hour < 24; hour++) {
+      if (counts[d][hour] > 0) {
+        cells.push({ weekday, hour, count: counts[d][hour], revenue: revenue[d][hour] });
+      }
+    }
+  });
+
+  return {
+    counts,
+    revenue,
+    transactions: sales.length,
+    totalRevenue: sales.reduce((sum, r) => sum + r.total_money, 0),
+    peaks: cells.sort((a, b) => b.revenue - a.revenue).slice(0, peakCount),
+  };
+}
+
+export interface PaymentMethodTotal {
+  payment_type_id: string;
+  name: string;
+  type: string;
+  amount: number;
+  payments: number;
+  shareOfTotal: number;
+}
+
+export interface PaymentMix {
+  methods: PaymentMethodTotal[];
+  totalAmount: number;
+  totalPayments: number;
+}
+
+/**
+ * Total receipt payments per payment type, largest first.
+ * Amounts are net of refunds paid back through the same method; payment counts
+ * cover sales only. Cancelled receipts are skipped, and payment types deleted
+ * since the sale show up under their ID.
+ */
+export function aggregatePaymentMix(
+  receipts: Receipt[],
+  paymentTypes: PaymentType[]
+): PaymentMix {
+  const typesById = new Map(paymentTypes.map((pt) => [pt.id, pt]));
+  const byType = new Map<string, PaymentMethodTotal>();
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt)) continue;
+    const refund = isRefund(receipt);
+
+    for (const payment of receipt.payments || []) {
+      let entry = byType.get(payment.payment_type_id);
+      if (!entry) {
+        const paymentType = typesById.get(payment.payment_type_id);
+        entry = {
+          payment_type_id: payment.payment_type_id,
+          name: paymentType?.name || `Unknown (${payment.payment_type_id})`,
+          type: paymentType?.type || "UNKNOWN",
+          amount: 0,
+          payments: 0,
+          shareOfTotal: 0,
+        };
+        byType.set(payment.payment_type_id, entry);
+      }
+      if (refund) {
+        entry.amount -= payment.money_amount;
+      } else {
+        entry.amount += payment.money_amount;
+        entry.payments++;
+      }
+    }
+  }
+
+  const totalAmount = Array.from(byType.values()).reduce((sum, m) => sum + m.amount, 0);
+  const totalPayments = Array.from(byType.values()).reduce((sum, m) => sum + m.payments, 0);
+
+  const methods = Array.from(byType.values())
+    .map((m) => ({
+      ...m,
+      shareOfTotal: totalAmount > 0 ? (m.amount / totalAmount) * 100 : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  return { methods, totalAmount, totalPayments };
+}
+
+/**
+ * Merge payment mixes from several accounts by payment method name,
+ * since payment type IDs differ between Loyverse accounts.
+ */
+export function combinePaymentMixes(mixes: PaymentMix[]): PaymentMix {
+  const byName = new Map<string, PaymentMethodTotal>();
+
+  for (const mix of mixes) {
+    for (const method of mix.methods) {
+      const key = method.name.toLowerCase();
+      const entry = byName.get(key);
+      if (entry) {
+        entry.amount += method.amount;
+        entry.payments += method.payments;
+      } else {
+        byName.set(key, { ...method });
+      }
+    }
+  }
+
+  const totalAmount = mixes.reduce((sum, m) => sum + m.totalAmount, 0);
+  const totalPayments = mixes.reduce((sum, m) => sum + m.totalPayments, 0);
+
+  const methods = Array.from(byName.values())
+    .map((m) => ({
+      ...m,
+      shareOfTotal: totalAmount > 0 ? (m.amount / totalAmount) * 100 : 0,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  return { methods, totalAmount, totalPayments };
+}
+
+export interface MetricChange {
+  current: number;
+  baseline: number;
+  delta: number;
+  percentChange: number | null; // null when the baseline is zero
+}
+
+export interface SalesComparison {
+  netSales: MetricChange;
+  transactions: MetricChange;
+  avgTransaction: MetricChange;
+}
+
+function metricChange(current: number, baseline: number): MetricChange {
+  return {
+    current,
+    baseline,
+    delta: current - baseline,
+    percentChange: baseline !== 0 ? ((current - baseline) / baseline) * 100 : null,
+  };
+}
+
+/**
+ * Change in net sales, transactions and average ticket against a baseline period
+ */
+export function compareSalesTotals(current: SalesTotals, baseline: SalesTotals): SalesComparison {
+  return {
+    netSales: metricChange(current.netSales, baseline.netSales),
+    transactions: metricChange(current.transactions, baseline.transactions),
+    avgTransaction: metricChange(current.avgTransaction, baseline.avgTransaction),
+  };
+}
+
+/**
+ * Add up sales totals from several restaurants or periods
+ */
+export function addSalesTotals(list: SalesTotals[]): SalesTotals {
+  const sum = (key: keyof SalesTotals) => list.reduce((total, t) => total + t[key], 0);
+  const grossSales = sum("grossSales");
+  const transactions = sum("transactions");
+  return {
+    grossSales,
+    refunds: sum("refunds"),
+    netSales: sum("netSales"),
+    cancelledSales: sum("cancelledSales"),
+    transactions,
+    refundCount: sum("refundCount"),
+    cancelledCount: sum("cancelledCount"),
+    totalTax: sum("totalTax"),
+    avgTransaction: transactions > 0 ? grossSales / transactions : 0,
+  };
+}
+
+export interface EmployeeStoreSales extends SalesTotals {
+  store_id: string | null;
+  discounts: number;
+}
+
+export interface EmployeeSales extends SalesTotals {
+  employee_id: string | null;
+  name: string;
+  discounts: number;
+  discountedReceipts: number;
+  stores: EmployeeStoreSales[];
+}
+
+function sumDiscounts(receipts: Receipt[]): { discounts: number; discountedReceipts: number } {
+  let discounts = 0;
+  let discountedReceipts = 0;
+  for (const receipt of receipts) {
+    if (isCancelled(receipt) || isRefund(receipt) || !receipt.total_discount) continue;
+    discounts += receipt.total_discount;
+    discountedReceipts++;
+  }
+  return { discounts, discountedReceipts };
+}
+
+function groupBy(receipts: Receipt[], key: (receipt: Receipt) => string | undefined) {
+  const groups = new Map<string | null, Receipt[]>();
+  for (const receipt of receipts) {
+    const value = key(receipt) || null;
+    if (!groups.has(value)) groups.set(value, []);
+    groups.get(value)!.push(receipt);
+  }
+  return groups;
+}
+
+/**
+ * Attribute sales, refunds, voids and discounts to the employee on each receipt,
+ * with a per-store breakdown. Discounts count sales receipts only. Receipts
+ * without an employee are grouped as "Unassigned".
+ */
+export function aggregateEmployeeSales(
+  receipts: Receipt[],
+  employees: Employee[]
+): EmployeeSales[] {
+  const names = new Map(employees.map((e) => [e.id, e.name]));
+
+  return Array.from(groupBy(receipts, (r) => r.employee_id).entries())
+    .map(([employeeId, employeeReceipts]) => ({
+      employee_id: employeeId,
+      name: employeeId ? names.get(employeeId) || `Unknown (${employeeId})` : "Unassigned",
+      ...summarizeSales(employeeReceipts),
+      ...sumDiscounts(employeeReceipts),
+      stores: Array.from(groupBy(employeeReceipts, (r) => r.store_id).entries())
+        .map(([storeId, storeReceipts]) => ({
+          store_id: storeId,
+          ...summarizeSales(storeReceipts),
+          discounts: sumDiscounts(storeReceipts).discounts,
+        }))
+        .sort((a, b) => b.netSales - a.netSales),
+    }))
+    .sort((a, b) => b.netSales - a.netSales);
+}
+
+export interface EmployeeOutlier {
+  employee_id: string | null;
+  name: string;
+  metric: "refunds" | "voids" | "discounts";
+  rate: number;
+  averageRate: number;
+  count: number;
+}
+
+// An employee is flagged when a rate is this many times the restaurant-wide rate
+const OUTLIER_RATE_MULTIPLE = 2;
+const OUTLIER_MIN_COUNT = 2;
+
+/**
+ * Flag employees whose refund, void or discount rate (per sale) is well above
+ * the rate across all employees
+ */
+export function findEmployeeOutliers(employees: EmployeeSales[]): EmployeeOutlier[] {
+  const metrics = [
+    { metric: "refunds" as const, count: (e: EmployeeSales) => e.refundCount },
+    { metric: "voids" as const, count: (e: EmployeeSales) => e.cancelledCount },
+    { metric: "discounts" as const, count: (e: EmployeeSales) => e.discountedReceipts },
+  ];
+  const totalTransactions = employees.reduce((sum, e) => sum + e.transactions, 0);
+  if (totalTransactions === 0) {
+    return [];
+  }
+
+  const outliers: EmployeeOutlier[] = [];
+  for (const { metric, count } of metrics) {
+    const averageRate =
+      (employees.reduce((sum, e) => sum + count(e), 0) / totalTransactions) * 100;
+
+    for (const employee of employees) {
+      if (employee.transactions === 0 || count(employee) < OUTLIER_MIN_COUNT) continue;
+      const rate = (count(employee) / employee.transactions) * 100;
+      if (rate > averageRate * OUTLIER_RATE_MULTIPLE) {
+        outliers.push({
+          employee_id: employee.employee_id,
+          name: employee.name,
+          metric,
+          rate,
+          averageRate,
+          count: count(employee),
+        });
+      }
+    }
+  }
+  return outliers;
+}
@@ -0,0 +1,252 @@
+import { Receipt, formatCurrency, getLocalDateParts } from "./loyverse";
+import { WEEKDAYS, isCancelled, isRefund } from "./analytics";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type AnomalySeverity = "high" | "medium" | "low";
+
+export type AnomalyKind = "sales_drop" | "zero_sales_hours" | "refund_spike";
+
+export interface SalesAnomaly {
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  store_id: string | null; // null = whole restaurant
+  date: string;
+  fromHour?: number;
+  toHour?: number; // exclusive
+  actual: number;
+  expected: number;
+  explanation: string;
+}
+
+export interface AnomalyScanOptions {
+  scanDates: string[];
+  baselineDates: string[];
+  timeZone: string;
+  cutoffHour: number;
+  now: Date;
+  storeNames: Map<string, string>;
+  currency?: string;
+}
+
+// A drop is only judged once the baseline expects this many sales so far
+const MIN_EXPECTED_TRANSACTIONS = 3;
+const DROP_SEVERITY: Array<[number, AnomalySeverity]> = [
+  [0.8, "high"],
+  [0.5, "medium"],
+  [0.3, "low"],
+];
+
+// An hour counts as open when it had sales on this share of the same weekdays in the baseline
+const OPEN_HOUR_SHARE = 0.75;
+const MIN_WEEKDAY_SAMPLES = 2;
+
+// A silent run is too short to matter when the baseline expects fewer sales than this in it
+const MIN_SILENT_EXPECTED = 2;
+
+const REFUND_MIN_COUNT = 2;
+const REFUND_SEVERITY: Array<[number, AnomalySeverity]> = [
+  [6, "high"],
+  [3, "medium"],
+];
+
+const SEVERITY_ORDER: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+// Hourly figures for one business day, indexed by hours since the day cutoff
+interface DayStats {
+  net: number[];
+  sales: number[];
+  refunds: number[];
+  refundCount: number[];
+}
+
+function emptyDay(): DayStats {
+  return {
+    net: new Array<number>(24).fill(0),
+    sales: new Array<number>(24).fill(0),
+    refunds: new Array<number>(24).fill(0),
+    refundCount: new Array<number>(24).fill(0),
+  };
+}
+
+function sumTo(values: number[], end: number): number {
+  let sum = 0;
+  for (let i = 0; i < end; i++) sum += values[i];
+  return sum;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function weekdayOf(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+function grade(value: number, thresholds: Array<[number, AnomalySeverity]>): AnomalySeverity | null {
+  for (const [threshold, severity] of thresholds) {
+    if (value >= threshold) return severity;
+  }
+  return null;
+}
+
+function formatClock(position: number, cutoffHour: number): string {
+  return `${String((position + cutoffHour) % 24).padStart(2, "0")}:00`;
+}
+
+/**
+ * Compare recent business days with a rolling baseline, for the whole restaurant
+ * and for each store, and flag sales drops, silent hours inside usual opening
+ * time and refund spikes. Today is only judged up to the last completed hour.
+ */
+export function detectSalesAnomalies(
+  receipts: Receipt[],
+  options: AnomalyScanOptions
+): SalesAnomaly[] {
+  const { scanDates, baselineDates, timeZone, cutoffHour, now, storeNames, currency } = options;
+  const dates = new Set([...scanDates, ...baselineDates]);
+
+  // scope ("" = restaurant, otherwise store_id) -> business date -> hourly stats.
+  // A single-store restaurant is only checked per store.
+  const multiStore = storeNames.size > 1;
+  const scopes = new Map<string, Map<string, DayStats>>();
+  if (multiStore) scopes.set("", new Map());
+  for (const storeId of storeNames.keys()) scopes.set(storeId, new Map());
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt)) continue;
+    const shifted = new Date(new Date(receipt.receipt_date).getTime() - cutoffHour * HOUR_MS);
+    const { date, hour } = getLocalDateParts(shifted, timeZone);
+    if (!dates.has(date)) continue;
+
+    const receiptScopes = receipt.store_id ? [receipt.store_id] : [];
+    if (multiStore) receiptScopes.push("");
+
+    for (const scope of receiptScopes) {
+      if (!scopes.has(scope)) scopes.set(scope, new Map());
+      const days = scopes.get(scope)!;
+      if (!days.has(date)) days.set(date, emptyDay());
+      const day = days.get(date)!;
+
+      if (isRefund(receipt)) {
+        day.net[hour] -= receipt.total_money;
+        day.refunds[hour] += receipt.total_money;
+        day.refundCount[hour]++;
+      } else {
+        day.net[hour] += receipt.total_money;
+        day.sales[hour]++;
+      }
+    }
+  }
+
+  const current = getLocalDateParts(new Date(now.getTime() - cutoffHour * HOUR_MS), timeZone);
+  const money = (value: number) => formatCurrency(value, currency);
+  const anomalies: SalesAnomaly[] = [];
+
+  for (const [scope, days] of scopes) {
+    const storeId = scope || null;
+    const label = scope ? storeNames.get(scope) || scope : "All stores";
+    const stats = (date: string) => days.get(date) || emptyDay();
+
+    for (const date of scanDates) {
+      // Hours of the business day that have fully passed
+      const end = date === current.date ? current.hour : date > current.date ? 0 : 24;
+      if (end === 0) continue;
+
+      const weekday = weekdayOf(date);
+      const sameWeekday = baselineDates.filter((d) => weekdayOf(d) === weekday);
+      const byWeekday = sameWeekday.length >= MIN_WEEKDAY_SAMPLES;
+      const reference = (byWeekday ? sameWeekday : baselineDates).map(stats);
+      const referenceLabel = byWeekday ? `a usual ${WEEKDAYS[weekday]}` : "the baseline average";
+      const until = end < 24 ? ` up to ${formatClock(end, cutoffHour)}` : "";
+      const day = stats(date);
+
+      // Sales drop against the same point of the day in the baseline
+      const expectedNet = average(reference.map((d) => sumTo(d.net, end)));
+      const expectedSales = average(reference.map((d) => sumTo(d.sales, end)));
+      const actualNet = sumTo(day.net, end);
+      if (expectedSales >= MIN_EXPECTED_TRANSACTIONS && expectedNet > 0) {
+        const drop = 1 - actualNet / expectedNet;
+        const severity = grade(drop, DROP_SEVERITY);
+        if (severity) {
+          anomalies.push({
+            kind: "sales_drop",
+            severity,
+            store_id: storeId,
+            date,
+            actual: actualNet,
+            expected: expectedNet,
+            explanation:
+              actualNet > 0
+                ? `${label}: net sales of ${money(actualNet)}${until} are ${(drop * 100).toFixed(0)}% below ${referenceLabel} (${money(expectedNet)}).`
+                : `${label}: net sales of ${money(actualNet)}${until}, against ${money(expectedNet)} for ${referenceLabel}.`,
+          });
+        }
+      }
+
+      // Runs of silent hours that are normally open, per store
+      if (scope && byWeekday) {
+        const weekdayStats = sameWeekday.map(stats);
+        const isOpen = (h: number) =>
+          weekdayStats.filter((d) => d.sales[h] > 0).length / weekdayStats.length >= OPEN_HOUR_SHARE;
+
+        for (let h = 0; h < end; h++) {
+          if (!isOpen(h) || day.sales[h] > 0) continue;
+          let runEnd = h + 1;
+          while (runEnd < end && isOpen(runEnd) && day.sales[runEnd] === 0) runEnd++;
+
+          const expected = average(
+            weekdayStats.map((d) => d.sales.slice(h, runEnd).reduce((sum, v) => sum + v, 0))
+          );
+          const hours = runEnd - h;
+          if (expected < MIN_SILENT_EXPECTED) {
+            h = runEnd;
+            continue;
+          }
+          const severity: AnomalySeverity =
+            hours >= 3 || expected >= 8 ? "high" : hours >= 2 || expected >= 4 ? "medium" : "low";
+          anomalies.push({
+            kind: "zero_sales_hours",
+            severity,
+            store_id: storeId,
+            date,
+            fromHour: (h + cutoffHour) % 24,
+            toHour: (runEnd + cutoffHour) % 24,
+            actual: 0,
+            expected,
+            explanation: `${label}: no sales ${formatClock(h, cutoffHour)}-${formatClock(runEnd, cutoffHour)} on ${date}, when ${referenceLabel} has ${expected.toFixed(1)} sales. Check the POS is online.`,
+          });
+          h = runEnd;
+        }
+      }
+
+      // Refunds well above the usual amount for that point of the day
+      const refundCount = sumTo(day.refundCount, end);
+      const actualRefunds = sumTo(day.refunds, end);
+      const expectedRefunds = average(baselineDates.map((d) => sumTo(stats(d).refunds, end)));
+      if (refundCount >= REFUND_MIN_COUNT) {
+        const ratio = expectedRefunds > 0 ? actualRefunds / expectedRefunds : null;
+        const severity = ratio === null ? "medium" : grade(ratio, REFUND_SEVERITY);
+        if (severity) {
+          anomalies.push({
+            kind: "refund_spike",
+            severity,
+            store_id: storeId,
+            date,
+            actual: actualRefunds,
+            expected: expectedRefunds,
+            explanation:
+              ratio !== null
+                ? `${label}: ${refundCount} refunds totalling ${money(actualRefunds)}${until}, ${ratio.toFixed(1)}x the usual ${money(expectedRefunds)}.`
+                : `${label}: ${refundCount} refunds totalling ${money(actualRefunds)}${until}, with none in the baseline.`,
+          });
+        }
+      }
+    }
+  }
+
+  return anomalies.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.date.localeCompare(a.date)
+  );
+}
@@ -0,0 +1,145 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Restaurant, RESTAURANTS, RESTAURANT_DISPLAY_NAMES } from "./loyverse";
+
+/**
+ * Scopes a credential can carry on top of read access to its restaurants.
+ * - write: operations that change data (item and price updates, uploading and deleting
+ *   knowledge base documents)
+ * - pii: unredacted customer, employee and merchant contact details
+ */
+export type Scope = "write" | "pii";
+
+/**
+ * A bearer credential as configured in MCP_AUTH_TOKENS.
+ * `restaurants` is either a list of restaurant ids or "*" for all accounts.
+ */
+interface CredentialConfig {
+  name: string;
+  token: string;
+  restaurants: Restaurant[] | "*";
+  scopes?: Scope[];
+}
+
+const MCP_AUTH_TOKENS = process.env.MCP_AUTH_TOKENS;
+
+if (!MCP_AUTH_TOKENS) {
+  console.warn(
+    "Warning: MCP_AUTH_TOKENS environment variable not set, all MCP requests will be rejected"
+  );
+}
+
+let cachedCredentials: CredentialConfig[] | null = null;
+
+function loadCredentials(): CredentialConfig[] {
+  if (cachedCredentials) {
+    return cachedCredentials;
+  }
+
+  if (!MCP_AUTH_TOKENS) {
+    cachedCredentials = [];
+    return cachedCredentials;
+  }
+
+  const parsed = JSON.parse(MCP_AUTH_TOKENS) as CredentialConfig[];
+  if (!Array.isArray(parsed)) {
+    throw new Error("MCP_AUTH_TOKENS must be a JSON array of credentials");
+  }
+
+  for (const credential of parsed) {
+    if (!credential.name || !credential.token) {
+      throw new Error("Each MCP_AUTH_TOKENS entry needs a name and a token");
+    }
+    if (credential.restaurants !== "*") {
+      const unknown = (credential.restaurants || []).filter(
+        (r) => !RESTAURANTS.includes(r)
+      );
+      if (unknown.length > 0) {
+        throw new Error(
+          `Credential "${credential.name}" references unknown restaurants: ${unknown.join(", ")}`
+        );
+      }
+    }
+  }
+
+  cachedCredentials = parsed;
+  return cachedCredentials;
+}
+
+/**
+ * Compare tokens in constant time by hashing both sides to equal length first
+ */
+export function tokensMatch(a: string, b: string): boolean {
+  const hashA = createHash("sha256").update(a).digest();
+  const hashB = createHash("sha256").update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Resolve a bearer token to the caller's identity, allowed restaurants and scopes.
+ * Returns undefined for unknown tokens so mcp-handler responds with 401.
+ */
+export function verifyBearerToken(
+  _req: Request,
+  bearerToken?: string
+): AuthInfo | undefined {
+  if (!bearerToken) {
+    return undefined;
+  }
+
+  const credential = loadCredentials().find((c) =>
+    tokensMatch(c.token, bearerToken)
+  );
+  if (!credential) {
+    return undefined;
+  }
+
+  const restaurants =
+    credential.restaurants === "*" ? RESTAURANTS : credential.restaurants;
+
+  return {
+    token: bearerToken,
+    clientId: credential.name,
+    scopes: credential.scopes || [],
+    extra: { restaurants },
+  };
+}
+
+/**
+ * Get the restaurants the caller is allowed to access.
+ * Callers without auth info get no restaurants at all.
+ */
+export function getAllowedRestaurants(authInfo?: AuthInfo): Restaurant[] {
+  const restaurants = authInfo?.extra?.restaurants as Restaurant[] | undefined;
+  return restaurants ? RESTAURANTS.filter((r) => restaurants.includes(r)) : [];
+}
+
+/**
+ * Throw if the caller is not allowed to access the given restaurant
+ */
+export function assertRestaurantAccess(
+  authInfo: AuthInfo | undefined,
+  restaurant: Restaurant
+): void {
+  if (!getAllowedRestaurants(authInfo).includes(restaurant)) {
+    throw new Error(
+      `Access denied: this credential is not authorized for ${RESTAURANT_DISPLAY_NAMES[restaurant]} (${restaurant})`
+    );
+  }
+}
+
+/**
+ * Check whether the caller's credential carries the given scope
+ */
+export function hasScope(authInfo: AuthInfo | undefined, scope: Scope): boolean {
+  return authInfo?.scopes.includes(scope) ?? false;
+}
+
+/**
+ * Throw if the caller's credential does not carry the given scope
+ */
+export function assertScope(authInfo: AuthInfo | undefined, scope: Scope): void {
+  if (!hasScope(authInfo, scope)) {
+    throw new Error(`Access denied: this operation requires the "${scope}" scope`);
+  }
+}
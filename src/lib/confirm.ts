@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const CONFIRMATION_SECRET = process.env.CONFIRMATION_SECRET;
+
+// How long a dry run's token can be confirmed
+export const CONFIRMATION_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+export type ConfirmationCheck = "valid" | "expired" | "mismatch";
+
+function sign(caller: string, basis: unknown, issuedAt: number): string {
+  if (!CONFIRMATION_SECRET) {
+    throw new Error(
+      "CONFIRMATION_SECRET environment variable is not set; write tools are disabled until it is"
+    );
+  }
+  return createHmac("sha256", CONFIRMATION_SECRET)
+    .update(JSON.stringify([caller, issuedAt, basis]))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Signed token for a planned write, the state it was planned against and the caller.
+ * Write tools return it from their dry run and require it back on confirm, so only
+ * a change this caller previewed recently, and whose inputs have not moved since,
+ * is applied. The HMAC key keeps callers from computing a token without a dry run.
+ */
+export function getConfirmationToken(
+  caller: string,
+  basis: unknown,
+  issuedAt: number = Date.now()
+): string {
+  return `${issuedAt}.${sign(caller, basis, issuedAt)}`;
+}
+
+/**
+ * Check a token from a confirm call against the write it is meant to apply
+ */
+export function checkConfirmationToken(
+  token: string | undefined,
+  caller: string,
+  basis: unknown,
+  now: number = Date.now()
+): ConfirmationCheck {
+  const [issued, signature] = (token || "").split(".");
+  const issuedAt = Number(issued);
+  if (!signature || !Number.isSafeInteger(issuedAt)) {
+    return "mismatch";
+  }
+
+  const expected = Buffer.from(sign(caller, basis, issuedAt));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return "mismatch";
+  }
+
+  return issuedAt > now || now - issuedAt > CONFIRMATION_TOKEN_TTL_MS ? "expired" : "valid";
+}
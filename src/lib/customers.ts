@@ -0,0 +1,220 @@
+import { Customer, Receipt } from "./loyverse";
+import { isCancelled, isRefund } from "./analytics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CustomerSegment =
+  | "champions"
+  | "loyal"
+  | "at_risk"
+  | "new"
+  | "promising"
+  | "needs_attention"
+  | "hibernating";
+
+export interface CustomerStats {
+  customer_id: string;
+  name: string;
+  email: string | null;
+  phone_number: string | null;
+  visits: number;
+  netSpent: number;
+  avgTicket: number;
+  firstVisit: string;
+  lastVisit: string;
+  daysSinceLastVisit: number;
+  avgDaysBetweenVisits: number | null;
+  recency: number; // 1-5, 5 = most recent
+  frequency: number; // 1-5, 5 = most visits
+  monetary: number; // 1-5, 5 = highest spend
+  segment: CustomerSegment;
+}
+
+export interface SegmentSummary {
+  segment: CustomerSegment;
+  customers: number;
+  netSpent: number;
+  shareOfSpend: number;
+}
+
+export interface FavoriteItem {
+  item_name: string;
+  quantity: number;
+  orders: number;
+  spent: number;
+}
+
+// A regular has at least this many visits in the window
+const REGULAR_MIN_VISITS = 3;
+
+// A regular has lapsed when absent this many times their usual gap, and at least MIN_LAPSE_DAYS
+const LAPSE_GAP_MULTIPLE = 3;
+const MIN_LAPSE_DAYS = 14;
+
+/**
+ * Score each value 1-5 by its quintile rank among all values (ties share the lowest score)
+ */
+function quintileScores(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return values.map((value) => {
+    if (sorted.length <= 1) return 3;
+    const rank = sorted.indexOf(value) / (sorted.length - 1);
+    return Math.min(Math.floor(rank * 5) + 1, 5);
+  });
+}
+
+function getSegment(r: number, f: number, m: number, visits: number): CustomerSegment {
+  if (r >= 4 && f >= 4 && m >= 4) return "champions";
+  if (r <= 2 && f >= 4) return "at_risk";
+  if (f >= 4) return "loyal";
+  if (r >= 4 && visits === 1) return "new";
+  if (r >= 4) return "promising";
+  if (r === 3) return "needs_attention";
+  return "hibernating";
+}
+
+/**
+ * Join customers to their receipts and score recency, frequency and monetary
+ * value against the other customers seen in the same receipts. Visits count
+ * sales; refunds are subtracted from spend and cancelled receipts ignored.
+ * Customers without receipts in the window are left out.
+ */
+export function buildCustomerStats(
+  receipts: Receipt[],
+  customers: Customer[],
+  asOf: Date
+): CustomerStats[] {
+  const byId = new Map(customers.map((c) => [c.id, c]));
+  const grouped = new Map<string, { sales: Receipt[]; netSpent: number }>();
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt) || !receipt.customer_id) continue;
+    let entry = grouped.get(receipt.customer_id);
+    if (!entry) {
+      entry = { sales: [], netSpent: 0 };
+      grouped.set(receipt.customer_id, entry);
+    }
+    if (isRefund(receipt)) {
+      entry.netSpent -= receipt.total_money;
+    } else {
+      entry.sales.push(receipt);
+      entry.netSpent += receipt.total_money;
+    }
+  }
+
+  const base = Array.from(grouped.entries())
+    .filter(([, entry]) => entry.sales.length > 0)
+    .map(([customerId, { sales, netSpent }]) => {
+      const dates = sales.map((r) => r.receipt_date).sort();
+      const first = dates[0];
+      const last = dates[dates.length - 1];
+      const customer = byId.get(customerId);
+
+      return {
+        customer_id: customerId,
+        name: customer?.name || `Unknown customer (${customerId})`,
+        email: customer?.email || null,
+        phone_number: customer?.phone_number || null,
+        visits: sales.length,
+        netSpent,
+        avgTicket: netSpent / sales.length,
+        firstVisit: first,
+        lastVisit: last,
+        daysSinceLastVisit: Math.floor((asOf.getTime() - Date.parse(last)) / DAY_MS),
+        avgDaysBetweenVisits:
+          sales.length > 1
+            ? (Date.parse(last) - Date.parse(first)) / DAY_MS / (sales.length - 1)
+            : null,
+      };
+    });
+
+  const recency = quintileScores(base.map((c) => -c.daysSinceLastVisit));
+  const frequency = quintileScores(base.map((c) => c.visits));
+  const monetary = quintileScores(base.map((c) => c.netSpent));
+
+  return base
+    .map((c, i) => ({
+      ...c,
+      recency: recency[i],
+      frequency: frequency[i],
+      monetary: monetary[i],
+      segment: getSegment(recency[i], frequency[i], monetary[i], c.visits),
+    }))
+    .sort((a, b) => b.netSpent - a.netSpent);
+}
+
+/**
+ * Customer count and spend per segment, largest spend first
+ */
+export function summarizeSegments(stats: CustomerStats[]): SegmentSummary[] {
+  const totalSpent = stats.reduce((sum, c) => sum + c.netSpent, 0);
+  const segments = new Map<CustomerSegment, SegmentSummary>();
+
+  for (const c of stats) {
+    const summary = segments.get(c.segment) || {
+      segment: c.segment,
+      customers: 0,
+      netSpent: 0,
+      shareOfSpend: 0,
+    };
+    summary.customers++;
+    summary.netSpent += c.netSpent;
+    segments.set(c.segment, summary);
+  }
+
+  return Array.from(segments.values())
+    .map((s) => ({ ...s, shareOfSpend: totalSpent > 0 ? (s.netSpent / totalSpent) * 100 : 0 }))
+    .sort((a, b) => b.netSpent - a.netSpent);
+}
+
+// Days since the last visit as a multiple of the customer's usual gap
+function overdue(c: CustomerStats): number {
+  return c.daysSinceLastVisit / Math.max(c.avgDaysBetweenVisits || 1, 1);
+}
+
+/**
+ * Regulars who have stayed away much longer than their own usual gap between visits,
+ * longest overdue first
+ */
+export function findLapsedRegulars(stats: CustomerStats[]): CustomerStats[] {
+  return stats
+    .filter(
+      (c) =>
+        c.visits >= REGULAR_MIN_VISITS &&
+        c.avgDaysBetweenVisits !== null &&
+        c.daysSinceLastVisit >=
+          Math.max(c.avgDaysBetweenVisits * LAPSE_GAP_MULTIPLE, MIN_LAPSE_DAYS)
+    )
+    .sort((a, b) => overdue(b) - overdue(a));
+}
+
+/**
+ * Items a customer buys most, by quantity net of refunds
+ */
+export function getFavoriteItems(receipts: Receipt[], limit: number = 5): FavoriteItem[] {
+  const items = new Map<string, FavoriteItem>();
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt)) continue;
+    const sign = isRefund(receipt) ? -1 : 1;
+
+    for (const line of receipt.line_items || []) {
+      const key = line.item_id || line.item_name;
+      const item = items.get(key) || {
+        item_name: line.item_name,
+        quantity: 0,
+        orders: 0,
+        spent: 0,
+      };
+      item.quantity += sign * line.quantity;
+      item.spent += sign * line.total_money;
+      if (sign > 0) item.orders++;
+      items.set(key, item);
+    }
+  }
+
+  return Array.from(items.values())
+    .filter((i) => i.quantity > 0)
+    .sort((a, b) => b.quantity - a.quantity || b.spent - a.spent)
+    .slice(0, limit);
+}
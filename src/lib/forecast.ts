@@ -0,0 +1,196 @@
+import { Receipt, getBusinessDay } from "./loyverse";
+import { WEEKDAYS, isCancelled, isRefund } from "./analytics";
+
+// z-score of an 80% prediction interval
+const BAND_Z = 1.28;
+
+// A forecast day counts as a spike when it is this many times the item's historical daily mean
+const SPIKE_RATIO = 1.5;
+const SPIKE_MIN_UNITS = 3;
+
+export interface ForecastPoint {
+  date: string;
+  weekday: string;
+  units: number;
+  lower: number;
+  upper: number;
+}
+
+export interface SeriesForecast {
+  points: ForecastPoint[];
+  totalUnits: number;
+  lower: number;
+  upper: number;
+  trendPerDay: number;
+  historyMean: number;
+}
+
+export interface ItemForecast extends SeriesForecast {
+  item_id: string | null;
+  item_name: string;
+}
+
+export interface DemandSpike {
+  item_id: string | null;
+  item_name: string;
+  date: string;
+  weekday: string;
+  units: number;
+  historyMean: number;
+  ratio: number;
+}
+
+export interface DemandForecast {
+  total: SeriesForecast;
+  items: ItemForecast[];
+  spikes: DemandSpike[];
+}
+
+function weekdayIndex(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Forecast a daily series with day-of-week seasonality and a linear trend.
+ * The series is deseasonalized by each weekday's share of the mean, a least
+ * squares line is fitted to it, and the projection is reseasonalized. Bands
+ * come from the spread of the in-sample residuals.
+ */
+export function forecastSeries(
+  history: number[],
+  historyDates: string[],
+  futureDates: string[]
+): SeriesForecast {
+  const n = history.length;
+  const mean = n > 0 ? history.reduce((sum, v) => sum + v, 0) / n : 0;
+
+  // Seasonal index per weekday; 1 when a weekday has no history or nothing sold
+  const seasonal = WEEKDAYS.map((_, d) => {
+    const values = history.filter((_, i) => weekdayIndex(historyDates[i]) === d);
+    if (values.length === 0 || mean === 0) return 1;
+    return values.reduce((sum, v) => sum + v, 0) / values.length / mean;
+  });
+  const seasonOf = (date: string) => seasonal[weekdayIndex(date)] || 1;
+
+  // Least squares trend on the deseasonalized series
+  const deseasonalized = history.map((v, i) => {
+    const s = seasonOf(historyDates[i]);
+    return s > 0 ? v / s : v;
+  });
+  const tMean = (n - 1) / 2;
+  const yMean = n > 0 ? deseasonalized.reduce((sum, v) => sum + v, 0) / n : 0;
+  let covariance = 0;
+  let variance = 0;
+  deseasonalized.forEach((y, t) => {
+    covariance += (t - tMean) * (y - yMean);
+    variance += (t - tMean) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  const intercept = yMean - slope * tMean;
+  const fitted = (t: number, date: string) => Math.max((intercept + slope * t) * seasonOf(date), 0);
+
+  const residuals = history.map((v, i) => v - fitted(i, historyDates[i]));
+  const sigma =
+    n > 2 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2)) : mean;
+
+  const points = futureDates.map((date, h) => {
+    const units = fitted(n + h, date);
+    return {
+      date,
+      weekday: WEEKDAYS[weekdayIndex(date)],
+      units: round1(units),
+      lower: round1(Math.max(units - BAND_Z * sigma, 0)),
+      upper: round1(units + BAND_Z * sigma),
+    };
+  });
+
+  return {
+    points,
+    totalUnits: round1(points.reduce((sum, p) => sum + p.units, 0)),
+    lower: round1(points.reduce((sum, p) => sum + p.lower, 0)),
+    upper: round1(points.reduce((sum, p) => sum + p.upper, 0)),
+    trendPerDay: slope,
+    historyMean: mean,
+  };
+}
+
+/**
+ * Forecast unit sales per item and in total for the given future business days,
+ * from receipts covering the history business days. Refunded units are
+ * subtracted and cancelled receipts skipped.
+ */
+export function forecastItemDemand(
+  receipts: Receipt[],
+  historyDates: string[],
+  futureDates: string[],
+  timeZone: string,
+  cutoffHour: number
+): DemandForecast {
+  const dayIndex = new Map(historyDates.map((date, i) => [date, i]));
+  const series = new Map<string, { item_id: string | null; item_name: string; units: number[] }>();
+  const totals = historyDates.map(() => 0);
+
+  for (const receipt of receipts) {
+    if (isCancelled(receipt)) continue;
+    const i = dayIndex.get(getBusinessDay(receipt.receipt_date, timeZone, cutoffHour));
+    if (i === undefined) continue;
+    const sign = isRefund(receipt) ? -1 : 1;
+
+    for (const line of receipt.line_items || []) {
+      const key = line.item_id || `name:${line.item_name}`;
+      let entry = series.get(key);
+      if (!entry) {
+        entry = {
+          item_id: line.item_id || null,
+          item_name: line.item_name,
+          units: historyDates.map(() => 0),
+        };
+        series.set(key, entry);
+      }
+      entry.units[i] += sign * line.quantity;
+      totals[i] += sign * line.quantity;
+    }
+  }
+
+  // Days before the first sale (e.g. before opening) would read as zero demand
+  const first = Math.max(totals.findIndex((units) => units !== 0), 0);
+  const dates = historyDates.slice(first);
+
+  const items = Array.from(series.values())
+    .map(({ item_id, item_name, units }) => ({
+      item_id,
+      item_name,
+      ...forecastSeries(units.slice(first), dates, futureDates),
+    }))
+    .sort((a, b) => b.totalUnits - a.totalUnits);
+
+  const spikes: DemandSpike[] = [];
+  for (const item of items) {
+    if (item.historyMean <= 0) continue;
+    const peak = item.points.reduce((best, p) => (p.units > best.units ? p : best), item.points[0]);
+    if (!peak || peak.units < SPIKE_MIN_UNITS) continue;
+    const ratio = peak.units / item.historyMean;
+    if (ratio >= SPIKE_RATIO) {
+      spikes.push({
+        item_id: item.item_id,
+        item_name: item.item_name,
+        date: peak.date,
+        weekday: peak.weekday,
+        units: peak.units,
+        historyMean: item.historyMean,
+        ratio,
+      });
+    }
+  }
+  spikes.sort((a, b) => b.ratio - a.ratio);
+
+  return {
+    total: forecastSeries(totals.slice(first), dates, futureDates),
+    items,
+    spikes,
+  };
+}
@@ -0,0 +1,366 @@
+import type { ObjectId } from "mongodb";
+import {
+  InventoryLevel,
+  Item,
+  ItemVariant,
+  Receipt,
+  Restaurant,
+  Supplier,
+  loyversePost,
+} from "./loyverse";
+import { isCancelled, isRefund } from "./analytics";
+import { StockAdjustmentAudit, getStockAdjustmentsCollection } from "./mongodb";
+
+export type StockStatus = "out_of_stock" | "low" | "ok";
+
+export interface InventoryRow {
+  variant_id: string;
+  item_id: string | null;
+  item_name: string;
+  variant_name: string;
+  sku: string | null;
+  store_id: string;
+  store_name: string;
+  in_stock: number;
+  low_stock: number | null;
+  optimal_stock: number | null;
+  status: StockStatus;
+}
+
+/**
+ * Variant label from its option values, e.g. "Large / Iced"
+ */
+export function getVariantName(variant: ItemVariant): string {
+  const options = [variant.option1_value, variant.option2_value, variant.option3_value].filter(
+    (o): o is string => !!o
+  );
+  return options.length > 0 ? options.join(" / ") : "Default";
+}
+
+/**
+ * Look up each variant by ID together with its parent item
+ */
+export function indexVariants(items: Item[]): Map<string, { item: Item; variant: ItemVariant }> {
+  const variants = new Map<string, { item: Item; variant: ItemVariant }>();
+  for (const item of items) {
+    for (const variant of item.variants || []) {
+      variants.set(variant.variant_id, { item, variant });
+    }
+  }
+  return variants;
+}
+
+function getStockStatus(inStock: number, lowStock: number | null): StockStatus {
+  if (inStock <= 0) return "out_of_stock";
+  if (lowStock !== null && inStock <= lowStock) return "low";
+  return "ok";
+}
+
+/**
+ * Join inventory levels to item variants and stores, and compare each level with
+ * the variant's low-stock threshold for that store. Variants missing from the
+ * item list (deleted items) keep their ID as the name.
+ */
+export function resolveInventory(
+  levels: InventoryLevel[],
+  items: Item[],
+  storeNames: Map<string, string>
+): InventoryRow[] {
+  const variants = indexVariants(items);
+
+  return levels.map((level) => {
+    const match = variants.get(level.variant_id);
+    const storeSettings = match?.variant.stores?.find((s) => s.store_id === level.store_id);
+    const lowStock = storeSettings?.low_stock ?? null;
+
+    return {
+      variant_id: level.variant_id,
+      item_id: match?.item.id || null,
+      item_name: match?.item.item_name || `Unknown variant (${level.variant_id})`,
+      variant_name: match ? getVariantName(match.variant) : "",
+      sku: match?.variant.sku || null,
+      store_id: level.store_id,
+      store_name: storeNames.get(level.store_id) || level.store_id,
+      in_stock: level.in_stock,
+      low_stock: lowStock,
+      optimal_stock: storeSettings?.optimal_stock ?? null,
+      status: getStockStatus(level.in_stock, lowStock),
+    };
+  });
+}
+
+/**
+ * Most urgent first: out of stock, then by stock as a fraction of the low-stock threshold
+ */
+export function sortByUrgency(rows: InventoryRow[]): InventoryRow[] {
+  const fill = (row: InventoryRow) =>
+    row.low_stock ? row.in_stock / row.low_stock : row.in_stock > 0 ? Infinity : 0;
+  return [...rows].sort((a, b) => fill(a) - fill(b) || a.in_stock - b.in_stock);
+}
+
+export interface ReorderLine extends InventoryRow {
+  avgDailyUnits: number;
+  daysOfCover: number;
+  reorderQuantity: number;
+  unitCost: number | null;
+  estimatedCost: number | null;
+}
+
+export interface SupplierReorder {
+  supplier_id: string | null;
+  supplier_name: string;
+  lines: ReorderLine[];
+  totalUnits: number;
+  estimatedCost: number;
+}
+
+/**
+ * Units sold per variant and store, net of refunds, keyed by "variant_id:store_id"
+ */
+export function sumUnitsSold(receipts: Receipt[]): Map<string, number> {
+  const units = new Map<string, number>();
+  for (const receipt of receipts) {
+    if (isCancelled(receipt) || !receipt.store_id) continue;
+    const sign = isRefund(receipt) ? -1 : 1;
+
+    for (const line of receipt.line_items || []) {
+      if (!line.variant_id) continue;
+      const key = `${line.variant_id}:${receipt.store_id}`;
+      units.set(key, (units.get(key) || 0) + sign * line.quantity);
+    }
+  }
+  return units;
+}
+
+/**
+ * Reorder quantities that bring each variant up to targetDays of cover at its
+ * average daily consumption over the lookback window, grouped by the item's
+ * primary supplier. Variants that cover the target already are left out.
+ */
+export function suggestReorders(
+  rows: InventoryRow[],
+  items: Item[],
+  suppliers: Supplier[],
+  receipts: Receipt[],
+  lookbackDays: number,
+  targetDays: number
+): SupplierReorder[] {
+  const variants = indexVariants(items);
+  const supplierNames = new Map(suppliers.map((s) => [s.id, s.name]));
+  const unitsSold = sumUnitsSold(receipts);
+  const bySupplier = new Map<string | null, SupplierReorder>();
+
+  for (const row of rows) {
+    const avgDailyUnits =
+      Math.max(unitsSold.get(`${row.variant_id}:${row.store_id}`) || 0, 0) / lookbackDays;
+    const onHand = Math.max(row.in_stock, 0);
+    const reorderQuantity = Math.max(Math.ceil(avgDailyUnits * targetDays - onHand), 0);
+    if (reorderQuantity === 0) continue;
+
+    const match = variants.get(row.variant_id);
+    const unitCost = match?.variant.purchase_cost ?? match?.variant.cost ?? null;
+    const supplierId = match?.item.primary_supplier_id || null;
+
+    let group = bySupplier.get(supplierId);
+    if (!group) {
+      group = {
+        supplier_id: supplierId,
+        supplier_name: supplierId
+          ? supplierNames.get(supplierId) || `Unknown supplier (${supplierId})`
+          : "No supplier",
+        lines: [],
+        totalUnits: 0,
+        estimatedCost: 0,
+      };
+      bySupplier.set(supplierId, group);
+    }
+
+    const estimatedCost = unitCost !== null ? unitCost * reorderQuantity : null;
+    group.lines.push({
+      ...row,
+      avgDailyUnits,
+      daysOfCover: onHand / avgDailyUnits,
+      reorderQuantity,
+      unitCost,
+      estimatedCost,
+    });
+    group.totalUnits += reorderQuantity;
+    group.estimatedCost += estimatedCost || 0;
+  }
+
+  for (const group of bySupplier.values()) {
+    group.lines.sort((a, b) => a.daysOfCover - b.daysOfCover);
+  }
+  return Array.from(bySupplier.values()).sort((a, b) => b.estimatedCost - a.estimatedCost);
+}
+
+export type StockAdjustmentReason = StockAdjustmentAudit["reason"];
+
+export type StockChange = StockAdjustmentAudit["changes"][number];
+
+export interface StockAdjustment {
+  reason: StockAdjustmentReason;
+  note: string | null;
+  changes: StockChange[];
+  warnings: string[];
+}
+
+export interface StockAdjustmentRequest {
+  reason: StockAdjustmentReason;
+  note?: string;
+  store_id: string;
+  change?: number; // units added (+) or removed (-)
+  counted?: number; // new absolute stock, e.g. after a count
+  to_store_id?: string; // transfers: store receiving the removed units
+}
+
+/**
+ * Find a variant by ID, SKU or barcode
+ */
+export function findVariant(
+  items: Item[],
+  query: string
+): { item: Item; variant: ItemVariant } | undefined {
+  const needle = query.trim().toLowerCase();
+  for (const match of indexVariants(items).values()) {
+    const { variant } = match;
+    if (
+      variant.variant_id === query ||
+      variant.sku?.toLowerCase() === needle ||
+      variant.barcode?.toLowerCase() === needle
+    ) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn a requested adjustment of one variant into before/after stock levels per
+ * store. A transfer removes units from store_id and adds them to to_store_id.
+ * Throws when the request does not fit its reason code.
+ */
+export function planStockAdjustment(
+  rows: InventoryRow[],
+  target: { variant_id: string; item_name: string; variant_name: string },
+  storeNames: Map<string, string>,
+  request: StockAdjustmentRequest
+): StockAdjustment {
+  const { reason, change, counted, store_id, to_store_id } = request;
+
+  if ((change === undefined) === (counted === undefined)) {
+    throw new Error("Give either change (units added or removed) or counted (new stock level)");
+  }
+  if (change === 0) {
+    throw new Error("change must not be 0");
+  }
+  if (reason === "waste" && change !== undefined && change > 0) {
+    throw new Error("Waste removes stock: use a negative change");
+  }
+  if (to_store_id) {
+    if (reason !== "transfer" || change === undefined || change >= 0) {
+      throw new Error("to_store_id is for transfers: give a negative change to move units out of store_id");
+    }
+    if (to_store_id === store_id) {
+      throw new Error("A transfer needs two different stores");
+    }
+  }
+
+  const level = (storeId: string) => {
+    if (!storeNames.has(storeId)) {
+      throw new Error(`Unknown store ${storeId}`);
+    }
+    return rows.find((r) => r.store_id === storeId)?.in_stock ?? 0;
+  };
+  const stockChange = (storeId: string, after: number): StockChange => ({
+    ...target,
+    store_id: storeId,
+    store_name: storeNames.get(storeId)!,
+    before: level(storeId),
+    after,
+  });
+
+  const before = level(store_id);
+  if (reason === "waste" && counted !== undefined && counted > before) {
+    throw new Error(
+      `Waste removes stock: counted (${counted}) is above the current stock of ${before}`
+    );
+  }
+  const changes = [stockChange(store_id, counted ?? before + change!)];
+  if (to_store_id) {
+    changes.push(stockChange(to_store_id, level(to_store_id) - change!));
+  }
+
+  const warnings = changes
+    .filter((c) => c.after < 0)
+    .map((c) => `${c.store_name} would go to ${c.after} in stock.`);
+  if (counted !== undefined && counted === before) {
+    warnings.push(`${changes[0].store_name} already has ${before} in stock.`);
+  }
+
+  return { reason, note: request.note || null, changes, warnings };
+}
+
+/**
+ * Send a stock adjustment to POST /inventory, recording it in the audit
+ * collection first. Nothing is sent when the audit record cannot be written;
+ * the record is then marked applied or failed.
+ */
+export async function applyStockAdjustment(
+  restaurant: Restaurant,
+  adjustment: StockAdjustment,
+  caller: string
+): Promise<StockAdjustmentAudit> {
+  const record: StockAdjustmentAudit = {
+    restaurant,
+    caller,
+    reason: adjustment.reason,
+    note: adjustment.note,
+    changes: adjustment.changes,
+    status: "pending",
+    requested_at: new Date().toISOString(),
+  };
+
+  let audit: Awaited<ReturnType<typeof getStockAdjustmentsCollection>>;
+  let insertedId: ObjectId;
+  try {
+    audit = await getStockAdjustmentsCollection();
+    ({ insertedId } = await audit.insertOne(record));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Stock was not adjusted because the audit trail could not be written: ${message}`);
+  }
+
+  try {
+    await loyversePost(restaurant, "/inventory", {
+      inventory_levels: adjustment.changes.map((c) => ({
+        variant_id: c.variant_id,
+        store_id: c.store_id,
+        stock_after: c.after,
+      })),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // Report the Loyverse failure even when it cannot be recorded
+    try {
+      await audit.updateOne(
+        { _id: insertedId },
+        { $set: { status: "failed", error: message, completed_at: new Date().toISOString() } }
+      );
+    } catch (auditError) {
+      console.error("Stock adjustment failed and its audit record is still pending:", auditError);
+    }
+    throw error;
+  }
+
+  const completedAt = new Date().toISOString();
+  try {
+    await audit.updateOne(
+      { _id: insertedId },
+      { $set: { status: "applied", completed_at: completedAt } }
+    );
+  } catch (error) {
+    console.error("Stock adjustment applied but its audit record is still pending:", error);
+  }
+  return { ...record, _id: insertedId, status: "applied", completed_at: completedAt };
+}
@@ -1,38 +1,27 @@
-const LOYVERSE_API_BASE = "https://api.loyverse.com/v1.0";
-
-export type Restaurant =
-  | "harveys_wings"
-  | "bakugo_ramen"
-  | "wildflower"
-  | "fika"
-  | "harveys_chicken";
-
-export const RESTAURANTS: Restaurant[] = [
-  "harveys_wings",
-  "bakugo_ramen",
-  "wildflower",
-  "fika",
-  "harveys_chicken",
-];
-
-export const RESTAURANT_DISPLAY_NAMES: Record<Restaurant, string> = {
-  harveys_wings: "Harvey's Wings",
-  bakugo_ramen: "Bakugo Ramen",
-  wildflower: "Wildflower Tea House",
-  fika: "Fika Cafe",
-  harveys_chicken: "Harvey's Chicken",
-};
-
-const TOKEN_ENV_VARS: Record<Restaurant, string> = {
-  harveys_wings: "LOYVERSE_TOKEN_HARVEYS_WINGS",
-  bakugo_ramen: "LOYVERSE_TOKEN_BAKUGO_RAMEN",
-  wildflower: "LOYVERSE_TOKEN_WILDFLOWER",
-  fika: "LOYVERSE_TOKEN_FIKA",
-  harveys_chicken: "LOYVERSE_TOKEN_HARVEYS_CHICKEN",
-};
+import {
+  RESTAURANT_REGISTRY,
+  DEFAULT_CURRENCY,
+  DEFAULT_TIMEZONE,
+  getRestaurantConfig,
+} from "./restaurants";
+
+// Overridable to point at the mock API in mock/loyverse-server.mjs
+const LOYVERSE_API_BASE = (
+  process.env.LOYVERSE_API_BASE || "https://api.loyverse.com/v1.0"
+).replace(/\/+$/, "");
+
+/**
+ * Restaurant account identifier, as listed in the restaurant registry
+ */
+export type Restaurant = string;
+
+export const RESTAURANTS: Restaurant[] = RESTAURANT_REGISTRY.map((r) => r.id);
+
+export const RESTAURANT_DISPLAY_NAMES: Record<Restaurant, string> =
+  Object.fromEntries(RESTAURANT_REGISTRY.map((r) => [r.id, r.name]));
 
 export function getToken(restaurant: Restaurant): string {
-  const envVar = TOKEN_ENV_VARS[restaurant];
+  const envVar = getRestaurantConfig(restaurant).token_env;
   const token = process.env[envVar];
   if (!token) {
     throw new Error(`Missing environment variable: ${envVar}`);
@@ -41,21 +30,421 @@ export function getToken(restaurant: Restaurant): string {
 }
 
 export function isTokenConfigured(restaurant: Restaurant): boolean {
-  const envVar = TOKEN_ENV_VARS[restaurant];
+  const envVar = getRestaurantConfig(restaurant).token_env;
   return !!process.env[envVar];
 }
 
-interface LoyverseResponse<T> {
-  data: T[];
-  cursor?: string;
+// A discount or tax as applied to a receipt or one of its lines
+export interface ReceiptDiscount {
+  id?: string;
+  type?: string;
+  name: string;
+  percentage?: number | null;
+  money_amount: number;
+}
+
+export interface ReceiptTax {
+  id?: string;
+  type?: string; // INCLUDED or ADDED
+  name: string;
+  rate?: number | null;
+  money_amount: number;
+}
+
+export interface ReceiptModifier {
+  id?: string;
+  modifier_option_id?: string;
+  name: string;
+  option: string;
+  price?: number;
+  money_amount: number;
+}
+
+export interface Receipt {
+  receipt_number: string;
+  receipt_type?: "SALE" | "REFUND";
+  refund_for?: string | null; // receipt_number of the refunded sale
+  receipt_date: string;
+  created_at: string;
+  updated_at: string;
+  cancelled_at?: string | null;
+  note?: string | null;
+  source?: string;
+  dining_option?: string | null;
+  total_money: number;
+  total_tax?: number;
+  total_discount?: number;
+  total_discounts?: ReceiptDiscount[];
+  total_taxes?: ReceiptTax[];
+  tip?: number;
+  surcharge?: number;
+  store_id?: string;
+  employee_id?: string;
+  customer_id?: string | null;
+  line_items?: Array<{
+    item_id?: string;
+    variant_id?: string;
+    item_name: string;
+    variant_name?: string | null;
+    sku?: string;
+    quantity: number;
+    price: number;
+    gross_total_money?: number;
+    total_money: number;
+    total_discount?: number;
+    line_note?: string | null;
+    line_discounts?: ReceiptDiscount[];
+    line_taxes?: ReceiptTax[];
+    line_modifiers?: ReceiptModifier[];
+  }>;
+  payments?: Array<{
+    payment_type_id: string;
+    name?: string;
+    type?: string;
+    money_amount: number;
+    paid_at?: string;
+  }>;
+}
+
+export interface ItemVariant {
+  variant_id: string;
+  item_id: string;
+  sku?: string;
+  barcode?: string | null;
+  option1_value?: string | null;
+  option2_value?: string | null;
+  option3_value?: string | null;
+  cost?: number;
+  purchase_cost?: number | null;
+  default_pricing_type?: "FIXED" | "VARIABLE";
+  default_price?: number | null;
+  stores?: Array<{
+    store_id: string;
+    pricing_type?: "FIXED" | "VARIABLE";
+    price?: number | null;
+    available_for_sale?: boolean;
+    low_stock?: number | null;
+    optimal_stock?: number | null;
+  }>;
+}
+
+export interface Item {
+  id: string;
+  item_name: string;
+  category_id?: string;
+  price?: number;
+  cost?: number;
+  sku?: string;
+  in_stock?: boolean;
+  primary_supplier_id?: string | null;
+  track_stock?: boolean;
+  variants?: ItemVariant[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact?: string | null;
+  email?: string | null;
+  phone_number?: string | null;
+}
+
+export interface InventoryLevel {
+  variant_id: string;
+  store_id: string;
+  in_stock: number;
+  updated_at?: string;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  email?: string;
+  phone_number?: string;
+  total_spent?: number;
+  total_visits?: number;
+}
+
+export interface Employee {
+  id: string;
+  name: string;
+  email?: string;
+  phone_number?: string;
+  stores?: string[];
+}
+
+export interface PaymentType {
+  id: string;
+  name: string;
+  type: string;
+}
+
+// Retry and concurrency settings for the Loyverse client
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 15000;
+const MAX_CONCURRENT_REQUESTS_PER_TOKEN = 4;
+
+/**
+ * Base error for failed Loyverse API calls
+ */
+export class LoyverseApiError extends Error {
+  constructor(
+    message: string,
+    public readonly restaurant: Restaurant,
+    public readonly endpoint: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "LoyverseApiError";
+  }
+}
+
+/**
+ * The API token was rejected (401/403)
+ */
+export class LoyverseAuthError extends LoyverseApiError {
+  constructor(restaurant: Restaurant, endpoint: string, status: number) {
+    super(
+      `Loyverse rejected the API token for ${RESTAURANT_DISPLAY_NAMES[restaurant]} (${status}). ` +
+        `Check that ${getRestaurantConfig(restaurant).token_env} holds a valid, unrevoked token.`,
+      restaurant,
+      endpoint,
+      status
+    );
+    this.name = "LoyverseAuthError";
+  }
+}
+
+/**
+ * Still rate limited (429) after all retries
+ */
+export class LoyverseRateLimitError extends LoyverseApiError {
+  constructor(
+    restaurant: Restaurant,
+    endpoint: string,
+    public readonly retryAfterMs?: number
+  ) {
+    const wait = retryAfterMs
+      ? ` Try again in ${Math.ceil(retryAfterMs / 1000)}s`
+      : " Try again shortly";
+    super(
+      `Loyverse rate limit reached for ${RESTAURANT_DISPLAY_NAMES[restaurant]} on ${endpoint}.${wait} or narrow the request (fewer days, fewer restaurants).`,
+      restaurant,
+      endpoint,
+      429
+    );
+    this.name = "LoyverseRateLimitError";
+  }
+}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class LoyverseNotFoundError extends LoyverseApiError {
+  constructor(restaurant: Restaurant, endpoint: string) {
+    super(
+      `Not found in ${RESTAURANT_DISPLAY_NAMES[restaurant]}: ${endpoint}. Check the ID or number and that it belongs to this restaurant.`,
+      restaurant,
+      endpoint,
+      404
+    );
+    this.name = "LoyverseNotFoundError";
+  }
+}
+
+// Per-token request slots, so parallel tool calls cannot flood one account
+const tokenSlots = new Map<string, { active: number; waiting: (() => void)[] }>();
+
+async function acquireSlot(token: string, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+
+  let slot = tokenSlots.get(token);
+  if (!slot) {
+    slot = { active: 0, waiting: [] };
+    tokenSlots.set(token, slot);
+  }
+
+  if (slot.active < MAX_CONCURRENT_REQUESTS_PER_TOKEN) {
+    slot.active++;
+    return;
+  }
+
+  // The releasing request hands its slot over directly; an aborted waiter leaves the queue
+  await new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      slot.waiting.splice(slot.waiting.indexOf(grant), 1);
+      reject(signal!.reason);
+    };
+    const grant = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    slot.waiting.push(grant);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function releaseSlot(token: string): void {
+  const slot = tokenSlots.get(token);
+  if (!slot) return;
+
+  const next = slot.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    slot.active--;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter, capped at MAX_RETRY_DELAY_MS
+ */
+function backoffDelay(attempt: number): number {
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+  return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Call a Loyverse URL, retrying 429s, 5xx responses and network failures.
+ * Honors Retry-After and throws a typed LoyverseApiError once retries are exhausted.
+ * Writes are only retried on 429, since a failed POST may still have been applied.
+ * Aborting the signal cancels the request, a pending retry or the wait for a slot,
+ * and rejects with the signal's reason.
+ */
+async function loyverseFetch(
+  restaurant: Restaurant,
+  endpoint: string,
+  url: URL,
+  body?: unknown,
+  signal?: AbortSignal
+): Promise<Response> {
+  const token = getToken(restaurant);
+  const isWrite = body !== undefined;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined;
+    let networkError: unknown;
+
+    await acquireSlot(token, signal);
+    try {
+      response = await fetch(url.toString(), {
+        method: isWrite ? "POST" : "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: isWrite ? JSON.stringify(body) : undefined,
+        signal,
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      networkError = error;
+    } finally {
+      releaseSlot(token);
+    }
+
+    // Back off outside the slot, so other requests on this token are not held up
+    if (!response) {
+      if (attempt < MAX_RETRIES && !isWrite) {
+        await sleep(backoffDelay(attempt), signal);
+        continue;
+      }
+      const message = networkError instanceof Error ? networkError.message : "Unknown error";
+      throw new LoyverseApiError(
+        `Could not reach Loyverse for ${RESTAURANT_DISPLAY_NAMES[restaurant]} (${endpoint}): ${message}`,
+        restaurant,
+        endpoint
+      );
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const { status } = response;
+
+    if (status === 401 || status === 403) {
+      throw new LoyverseAuthError(restaurant, endpoint, status);
+    }
+
+    if (status === 404) {
+      throw new LoyverseNotFoundError(restaurant, endpoint);
+    }
+
+    if (status === 429 || status >= 500) {
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+
+      if (attempt < MAX_RETRIES && (status === 429 || !isWrite)) {
+        await response.body?.cancel();
+        await sleep(
+          retryAfter !== undefined
+            ? Math.min(retryAfter, MAX_RETRY_DELAY_MS)
+            : backoffDelay(attempt),
+          signal
+        );
+        continue;
+      }
+
+      if (status === 429) {
+        throw new LoyverseRateLimitError(restaurant, endpoint, retryAfter);
+      }
+    }
+
+    const errorText = await response.text();
+    throw new LoyverseApiError(
+      `Loyverse API error (${status}): ${errorText}`,
+      restaurant,
+      endpoint,
+      status
+    );
+  }
 }
 
 export async function loyverseGet<T>(
   restaurant: Restaurant,
   endpoint: string,
-  params: Record<string, string> = {}
+  params: Record<string, string> = {},
+  signal?: AbortSignal
 ): Promise<T> {
-  const token = getToken(restaurant);
   const url = new URL(`${LOYVERSE_API_BASE}${endpoint}`);
 
   for (const [key, value] of Object.entries(params)) {
@@ -64,29 +453,59 @@ export async function loyverseGet<T>(
     }
   }
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Loyverse API error (${response.status}): ${errorText}`);
-  }
+  const response = await loyverseFetch(restaurant, endpoint, url, undefined, signal);
+  return response.json();
+}
 
+/**
+ * POST a JSON body to a Loyverse endpoint and return the parsed response
+ */
+export async function loyversePost<T>(
+  restaurant: Restaurant,
+  endpoint: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  const url = new URL(`${LOYVERSE_API_BASE}${endpoint}`);
+  const response = await loyverseFetch(restaurant, endpoint, url, body, signal);
   return response.json();
 }
 
+export interface PagedResult<T> {
+  data: T[];
+  truncated: boolean; // more records matched than maxItems allowed
+}
+
 export async function loyverseGetAll<T>(
   restaurant: Restaurant,
   endpoint: string,
   dataKey: string,
   params: Record<string, string> = {},
-  maxItems: number = 1000
+  maxItems: number = 1000,
+  signal?: AbortSignal
 ): Promise<T[]> {
-  const token = getToken(restaurant);
+  const { data } = await loyverseGetAllWithMeta<T>(
+    restaurant,
+    endpoint,
+    dataKey,
+    params,
+    maxItems,
+    signal
+  );
+  return data;
+}
+
+/**
+ * Like loyverseGetAll, but also reports whether maxItems cut the results short
+ */
+export async function loyverseGetAllWithMeta<T>(
+  restaurant: Restaurant,
+  endpoint: string,
+  dataKey: string,
+  params: Record<string, string> = {},
+  maxItems: number = 1000,
+  signal?: AbortSignal
+): Promise<PagedResult<T>> {
   const allData: T[] = [];
   let cursor: string | undefined;
 
@@ -104,22 +523,12 @@ export async function loyverseGetAll<T>(
       url.searchParams.set("cursor", cursor);
     }
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Loyverse API error (${response.status}): ${errorText}`);
-    }
-
+    const response = await loyverseFetch(restaurant, endpoint, url, undefined, signal);
     const json = await response.json();
     const data = json[dataKey] as T[];
 
     if (!data || data.length === 0) {
+      cursor = undefined;
       break;
     }
 
@@ -131,16 +540,91 @@ export async function loyverseGetAll<T>(
     }
   }
 
-  return allData.slice(0, maxItems);
+  return {
+    data: allData.slice(0, maxItems),
+    truncated: allData.length > maxItems || !!cursor,
+  };
 }
 
-export function formatCurrency(amount: number): string {
-  return `PHP ${amount.toFixed(2)}`;
+// Shared deadline for tools that query several restaurants at once,
+// leaving headroom inside the 60s function maxDuration
+const FAN_OUT_TIME_BUDGET_MS = 45000;
+
+export interface RestaurantFailure {
+  restaurant: Restaurant;
+  name: string;
+  error: string;
 }
 
-export function formatDate(dateString: string): string {
+/**
+ * Run a task for each restaurant concurrently under one shared deadline.
+ * Restaurants that fail or are still running at the deadline are reported
+ * separately instead of failing the whole call. The task's signal aborts at the
+ * deadline; pass it to the Loyverse calls so late requests stop holding token slots.
+ */
+export async function fanOutRestaurants<T>(
+  restaurants: Restaurant[],
+  task: (restaurant: Restaurant, signal: AbortSignal) => Promise<T>,
+  timeBudgetMs: number = FAN_OUT_TIME_BUDGET_MS
+): Promise<{
+  results: Array<{ restaurant: Restaurant; value: T }>;
+  failed: RestaurantFailure[];
+}> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Timed out after ${Math.round(timeBudgetMs / 1000)}s`)),
+    timeBudgetMs
+  );
+  // Tasks that ignore the signal are still cut off at the deadline
+  const deadline = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener("abort", () => reject(controller.signal.reason), {
+      once: true,
+    });
+  });
+  // Keep an unobserved rejection from being reported when every task finished in time
+  deadline.catch(() => {});
+
+  try {
+    const settled = await Promise.allSettled(
+      restaurants.map((restaurant) =>
+        Promise.race([task(restaurant, controller.signal), deadline])
+      )
+    );
+
+    const results: Array<{ restaurant: Restaurant; value: T }> = [];
+    const failed: RestaurantFailure[] = [];
+    settled.forEach((outcome, i) => {
+      const restaurant = restaurants[i];
+      if (outcome.status === "fulfilled") {
+        results.push({ restaurant, value: outcome.value });
+      } else {
+        failed.push({
+          restaurant,
+          name: RESTAURANT_DISPLAY_NAMES[restaurant],
+          error: outcome.reason instanceof Error ? outcome.reason.message : "Unknown error",
+        });
+      }
+    });
+
+    return { results, failed };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function formatCurrency(
+  amount: number,
+  currency: string = DEFAULT_CURRENCY
+): string {
+  return `${currency} ${amount.toFixed(2)}`;
+}
+
+export function formatDate(
+  dateString: string,
+  timeZone: string = DEFAULT_TIMEZONE
+): string {
   return new Date(dateString).toLocaleString("en-PH", {
-    timeZone: "Asia/Manila",
+    timeZone,
     year: "numeric",
     month: "short",
     day: "numeric",
@@ -148,3 +632,236 @@ export function formatDate(dateString: string): string {
     minute: "2-digit",
   });
 }
+
+/**
+ * A range of whole business days in a restaurant's local time.
+ * `from`/`to` are the UTC instants to query receipts with; the last day
+ * runs up to now.
+ */
+export interface BusinessDayRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  days: number;
+  from: string;
+  to: string;
+  timezone: string;
+  dayCutoffHour: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const localPartsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar date, hour and weekday (0 = Monday) of an instant in a time zone
+ */
+export function getLocalDateParts(
+  date: Date,
+  timeZone: string = DEFAULT_TIMEZONE
+): { date: string; hour: number; weekday: number } {
+  let formatter = localPartsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "numeric",
+      hourCycle: "h23",
+    });
+    localPartsFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((p) => [p.type, p.value])
+  );
+  const localDate = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date: localDate,
+    hour: Number(parts.hour) % 24,
+    weekday: (new Date(`${localDate}T00:00:00Z`).getUTCDay() + 6) % 7,
+  };
+}
+
+/**
+ * Business day (YYYY-MM-DD) a timestamp belongs to. Times before the cutoff
+ * hour count towards the previous day.
+ */
+export function getBusinessDay(
+  dateString: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+  cutoffHour: number = 0
+): string {
+  const shifted = new Date(new Date(dateString).getTime() - cutoffHour * HOUR_MS);
+  return getLocalDateParts(shifted, timeZone).date;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar days
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * UTC instant of a local date and hour in a time zone
+ */
+function localTimeToUtc(date: string, hour: number, timeZone: string): Date {
+  const wallClock = new Date(`${date}T${String(hour).padStart(2, "0")}:00:00Z`).getTime();
+
+  // Correct the guess by the zone offset; twice in case it crosses a DST change
+  let utc = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const local = getLocalDateParts(new Date(utc), timeZone);
+    const localAsUtc = new Date(
+      `${local.date}T${String(local.hour).padStart(2, "0")}:00:00Z`
+    ).getTime();
+    utc -= localAsUtc - wallClock;
+  }
+  return new Date(utc);
+}
+
+/**
+ * The last N business days, ending with the current one
+ */
+export function getBusinessDayRange(
+  days: number,
+  timeZone: string = DEFAULT_TIMEZONE,
+  cutoffHour: number = 0,
+  now: Date = new Date()
+): BusinessDayRange {
+  const endDate = getBusinessDay(now.toISOString(), timeZone, cutoffHour);
+  const startDate = addDays(endDate, -(days - 1));
+
+  return {
+    startDate,
+    endDate,
+    days,
+    from: localTimeToUtc(startDate, cutoffHour, timeZone).toISOString(),
+    to: now.toISOString(),
+    timezone: timeZone,
+    dayCutoffHour: cutoffHour,
+  };
+}
+
+/**
+ * Business days from startDate to endDate inclusive (YYYY-MM-DD). A range
+ * reaching into the current day ends at now.
+ */
+export function getBusinessDayRangeBetween(
+  startDate: string,
+  endDate: string,
+  timeZone: string = DEFAULT_TIMEZONE,
+  cutoffHour: number = 0,
+  now: Date = new Date()
+): BusinessDayRange {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+    throw new Error(`Dates must be in YYYY-MM-DD format: ${startDate} - ${endDate}`);
+  }
+  if (startDate > endDate) {
+    throw new Error(`Start date ${startDate} is after end date ${endDate}`);
+  }
+
+  const from = localTimeToUtc(startDate, cutoffHour, timeZone);
+  if (from > now) {
+    throw new Error(`Start date ${startDate} is in the future`);
+  }
+  const end = localTimeToUtc(addDays(endDate, 1), cutoffHour, timeZone);
+  const days =
+    Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / DAY_MS) + 1;
+
+  return {
+    startDate,
+    endDate,
+    days,
+    from: from.toISOString(),
+    to: new Date(Math.min(end.getTime() - 1, now.getTime())).toISOString(),
+    timezone: timeZone,
+    dayCutoffHour: cutoffHour,
+  };
+}
+
+/**
+ * Business day range for a restaurant, using its configured time zone and cutoff.
+ * Pass a number of days for the last N days, or explicit start and end dates.
+ */
+export function getRestaurantBusinessDayRange(
+  restaurant: Restaurant,
+  days: number | { startDate: string; endDate: string },
+  now: Date = new Date()
+): BusinessDayRange {
+  const { timezone, day_cutoff_hour } = getRestaurantConfig(restaurant);
+  return typeof days === "number"
+    ? getBusinessDayRange(days, timezone, day_cutoff_hour, now)
+    : getBusinessDayRangeBetween(days.startDate, days.endDate, timezone, day_cutoff_hour, now);
+}
+
+export type ComparisonMode = "previous_period" | "last_year" | "custom";
+
+/**
+ * Baseline to compare a range against: the same number of days just before
+ * it, the same dates a year earlier, or custom dates. Preset baselines cover
+ * the same length of time as the range, so a partial current day is compared
+ * with the same part of the baseline day.
+ */
+export function getComparisonRange(
+  range: BusinessDayRange,
+  mode: ComparisonMode,
+  custom?: { startDate?: string; endDate?: string }
+): BusinessDayRange {
+  if (mode === "custom") {
+    if (!custom?.startDate) {
+      throw new Error("A custom comparison needs baseline_start_date (and optionally baseline_end_date)");
+    }
+    return getBusinessDayRangeBetween(
+      custom.startDate,
+      custom.endDate || custom.startDate,
+      range.timezone,
+      range.dayCutoffHour
+    );
+  }
+
+  let startDate: string;
+  if (mode === "previous_period") {
+    startDate = addDays(range.startDate, -range.days);
+  } else {
+    const d = new Date(`${range.startDate}T00:00:00Z`);
+    d.setUTCFullYear(d.getUTCFullYear() - 1);
+    startDate = d.toISOString().split("T")[0];
+  }
+
+  const from = localTimeToUtc(startDate, range.dayCutoffHour, range.timezone);
+  const length = Date.parse(range.to) - Date.parse(range.from);
+  return {
+    startDate,
+    endDate: addDays(startDate, range.days - 1),
+    days: range.days,
+    from: from.toISOString(),
+    to: new Date(from.getTime() + length).toISOString(),
+    timezone: range.timezone,
+    dayCutoffHour: range.dayCutoffHour,
+  };
+}
+
+/**
+ * Human-readable period, e.g. "Oct 13 - Oct 19, 2026 (7 business days, Asia/Manila, day starts 03:00)"
+ */
+export function formatBusinessDayRange(range: BusinessDayRange): string {
+  const format = (date: string, withYear: boolean) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-PH", {
+      timeZone: "UTC",
+      month: "short",
+      day: "numeric",
+      ...(withYear ? { year: "numeric" } : {}),
+    });
+  const dayLabel = range.days === 1 ? "business day" : "business days";
+  const cutoff = `day starts ${String(range.dayCutoffHour).padStart(2, "0")}:00`;
+  const dates =
+    range.startDate === range.endDate
+      ? format(range.endDate, true)
+      : `${format(range.startDate, false)} - ${format(range.endDate, true)}`;
+  return `${dates} (${range.days} ${dayLabel}, ${range.timezone}, ${cutoff})`;
+}
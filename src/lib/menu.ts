@@ -0,0 +1,393 @@
+import { Category, Item, ItemVariant } from "./loyverse";
+import { getVariantName } from "./inventory";
+
+type FieldValue = string | number | boolean | null;
+
+export interface FieldChange {
+  field: string;
+  before: FieldValue;
+  after: FieldValue;
+}
+
+export interface PriceChange {
+  variant_id: string | null; // null for a variant that does not exist yet
+  variant_name: string;
+  store_id: string | null; // null = the variant's default price
+  before: number | null; // null = not set or variable pricing
+  after: number;
+}
+
+/**
+ * A create or update of one item through POST /items, with the field and price
+ * differences a reviewer should see before it is sent
+ */
+export interface ItemWritePlan {
+  action: "create" | "update";
+  item_id: string | null;
+  item_name: string;
+  payload: ItemPayload;
+  fields: FieldChange[];
+  prices: PriceChange[];
+  warnings: string[];
+  baseUpdatedAt: string | null;
+}
+
+// Body of POST /items; an item without an ID is created
+export type ItemPayload = Omit<Item, "id"> & { id?: string };
+
+export interface ItemFields {
+  item_name?: string;
+  category_id?: string;
+  track_stock?: boolean;
+}
+
+export interface NewItem extends ItemFields {
+  item_name: string;
+  price: number;
+  sku?: string;
+  barcode?: string;
+  cost?: number;
+}
+
+export interface PriceTarget {
+  variant?: string; // variant ID, SKU or option label; all variants when omitted
+  store_id?: string; // default price and every store when omitted
+}
+
+/**
+ * One variant found by searchItems, with its category resolved
+ */
+export interface ItemSearchMatch {
+  item_id: string;
+  item_name: string;
+  variant_id: string;
+  variant_name: string;
+  sku: string | null;
+  barcode: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  price: number | null; // null = variable pricing
+  cost: number | null;
+  matched_on: "name" | "sku" | "barcode";
+  score: number; // 0-1, 1 = exact
+}
+
+// Fuzzy name matches scoring below this are dropped
+const MIN_MATCH_SCORE = 0.6;
+
+// A SKU or barcode prefix needs this many characters to count
+const MIN_CODE_PREFIX = 3;
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse spaces
+ */
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a name matches a query: 1 for an exact match, 0.9 when the name
+ * contains the query, otherwise each query word is scored against its closest
+ * word in the name (prefixes and small typos count) and the average is scaled
+ * down so it ranks below a substring match
+ */
+function scoreName(name: string, query: string): number {
+  const n = normalizeText(name);
+  const q = normalizeText(query);
+  if (!n || !q) return 0;
+  if (n === q) return 1;
+  if (n.includes(q)) return 0.9;
+
+  const nameWords = n.split(" ");
+  const queryWords = q.split(" ");
+  const total = queryWords.reduce((sum, qw) => {
+    const best = Math.max(
+      ...nameWords.map((nw) => {
+        if (nw === qw) return 1;
+        if (nw.startsWith(qw)) return 0.9;
+        return 1 - editDistance(qw, nw) / Math.max(qw.length, nw.length);
+      })
+    );
+    return sum + best;
+  }, 0);
+  return (total / queryWords.length) * 0.85;
+}
+
+function scoreCode(code: string | null | undefined, query: string): number {
+  if (!code) return 0;
+  const c = code.trim().toLowerCase();
+  const q = query.trim().toLowerCase();
+  if (c === q) return 1;
+  if (q.length >= MIN_CODE_PREFIX && c.startsWith(q)) return 0.8;
+  return 0;
+}
+
+/**
+ * Search variants by item name (fuzzy), SKU or barcode (exact or prefix),
+ * best match first. A name match returns every variant of the item; a code
+ * match only the variant carrying that code.
+ */
+export function searchItems(
+  items: Item[],
+  categories: Category[],
+  query: string
+): ItemSearchMatch[] {
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+  const matches: ItemSearchMatch[] = [];
+
+  for (const item of items) {
+    const itemScore = scoreName(item.item_name, query);
+
+    for (const variant of item.variants || []) {
+      const variantName = getVariantName(variant);
+      const candidates: Array<[ItemSearchMatch["matched_on"], number]> = [
+        ["sku", scoreCode(variant.sku, query)],
+        ["barcode", scoreCode(variant.barcode, query)],
+        [
+          "name",
+          variant.option1_value
+            ? Math.max(itemScore, scoreName(`${item.item_name} ${variantName}`, query))
+            : itemScore,
+        ],
+      ];
+      const [matchedOn, score] = candidates.reduce((best, c) => (c[1] > best[1] ? c : best));
+      if (score < MIN_MATCH_SCORE) continue;
+
+      matches.push({
+        item_id: item.id,
+        item_name: item.item_name,
+        variant_id: variant.variant_id,
+        variant_name: variantName,
+        sku: variant.sku || null,
+        barcode: variant.barcode || null,
+        category_id: item.category_id || null,
+        category_name: item.category_id ? categoryNames.get(item.category_id) || null : null,
+        price: variant.default_pricing_type === "VARIABLE" ? null : (variant.default_price ?? null),
+        cost: variant.cost ?? null,
+        matched_on: matchedOn,
+        score,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.item_name.localeCompare(b.item_name));
+}
+
+/**
+ * Items matching an ID, a variant SKU or barcode, or an exact name (case-insensitive)
+ */
+export function findItems(items: Item[], query: string): Item[] {
+  const needle = query.trim().toLowerCase();
+  const byCode = items.filter(
+    (item) =>
+      item.id === query ||
+      (item.variants || []).some(
+        (v) => v.sku?.toLowerCase() === needle || v.barcode?.toLowerCase() === needle
+      )
+  );
+  if (byCode.length > 0) return byCode;
+  return items.filter((item) => item.item_name.trim().toLowerCase() === needle);
+}
+
+/**
+ * The item as it can be sent back to POST /items, without server-managed fields
+ */
+function toPayload(item: Item): ItemPayload {
+  const { created_at: _created, updated_at: _updated, ...payload } = item;
+  return JSON.parse(JSON.stringify(payload));
+}
+
+function diffFields(item: Item | null, fields: ItemFields): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, after] of Object.entries(fields) as Array<[keyof ItemFields, FieldValue]>) {
+    if (after === undefined) continue;
+    const before = item ? (item[field] ?? null) : null;
+    if (before !== after) changes.push({ field, before, after });
+  }
+  return changes;
+}
+
+/**
+ * Plan a new single-variant item priced the same in every store, with warnings
+ * when its name or SKU is already taken by one of the existing items
+ */
+export function planItemCreate(
+  fields: NewItem,
+  storeIds: string[],
+  existing: Item[]
+): ItemWritePlan {
+  const warnings: string[] = [];
+  if (findItems(existing, fields.item_name).length > 0) {
+    warnings.push(`An item named "${fields.item_name}" already exists; this creates a second one.`);
+  }
+  if (fields.sku && findItems(existing, fields.sku).length > 0) {
+    warnings.push(`SKU ${fields.sku} is already used by another item.`);
+  }
+
+  const itemFields = {
+    item_name: fields.item_name,
+    category_id: fields.category_id,
+    track_stock: fields.track_stock ?? false,
+  };
+
+  // Variant and item IDs are assigned by Loyverse
+  const variant = {
+    sku: fields.sku,
+    barcode: fields.barcode ?? null,
+    cost: fields.cost ?? 0,
+    default_pricing_type: "FIXED",
+    default_price: fields.price,
+    stores: storeIds.map((store_id) => ({
+      store_id,
+      pricing_type: "FIXED",
+      price: fields.price,
+      available_for_sale: true,
+    })),
+  } as ItemVariant;
+
+  return {
+    action: "create",
+    item_id: null,
+    item_name: fields.item_name,
+    payload: { ...itemFields, variants: [variant] },
+    fields: diffFields(null, itemFields),
+    prices: [
+      {
+        variant_id: null,
+        variant_name: "Default",
+        store_id: null,
+        before: null,
+        after: fields.price,
+      },
+    ],
+    warnings,
+    baseUpdatedAt: null,
+  };
+}
+
+/**
+ * Plan an update of an existing item's fields
+ */
+export function planItemUpdate(item: Item, fields: ItemFields): ItemWritePlan {
+  return {
+    action: "update",
+    item_id: item.id,
+    item_name: item.item_name,
+    payload: { ...toPayload(item), ...stripUndefined(fields) },
+    fields: diffFields(item, fields),
+    prices: [],
+    warnings: [],
+    baseUpdatedAt: item.updated_at || null,
+  };
+}
+
+function stripUndefined(fields: ItemFields): ItemFields {
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Add a fixed price change to a plan, for one or all variants and for one or
+ * all stores. Store prices switch to fixed pricing. Throws when the variant or
+ * store is not found on the item.
+ */
+export function addPriceChange(
+  plan: ItemWritePlan,
+  price: number,
+  target: PriceTarget = {}
+): ItemWritePlan {
+  const variants = plan.payload.variants || [];
+  const needle = target.variant?.trim().toLowerCase();
+  const selected = needle
+    ? variants.filter(
+        (v) =>
+          v.variant_id === target.variant ||
+          v.sku?.toLowerCase() === needle ||
+          getVariantName(v).toLowerCase() === needle
+      )
+    : variants;
+
+  if (selected.length === 0) {
+    throw new Error(
+      `No variant of ${plan.item_name} matches "${target.variant}". Variants: ${variants.map(getVariantName).join(", ")}`
+    );
+  }
+
+  const prices: PriceChange[] = [];
+  for (const variant of selected) {
+    const variantName = getVariantName(variant);
+    const change = (store_id: string | null, before: number | null) => {
+      if (before !== price) {
+        prices.push({
+          variant_id: variant.variant_id,
+          variant_name: variantName,
+          store_id,
+          before,
+          after: price,
+        });
+      }
+    };
+
+    if (!target.store_id) {
+      change(
+        null,
+        variant.default_pricing_type === "VARIABLE" ? null : (variant.default_price ?? null)
+      );
+      variant.default_pricing_type = "FIXED";
+      variant.default_price = price;
+    }
+
+    const stores = (variant.stores || []).filter(
+      (s) => !target.store_id || s.store_id === target.store_id
+    );
+    if (target.store_id && stores.length === 0) {
+      throw new Error(`${plan.item_name} (${variantName}) is not set up in store ${target.store_id}`);
+    }
+
+    for (const store of stores) {
+      change(store.store_id, store.pricing_type === "VARIABLE" ? null : (store.price ?? null));
+      store.pricing_type = "FIXED";
+      store.price = price;
+    }
+  }
+
+  return { ...plan, prices: [...plan.prices, ...prices] };
+}
+
+export function hasChanges(plan: ItemWritePlan): boolean {
+  return plan.fields.length > 0 || plan.prices.length > 0;
+}
+
+/**
+ * What a confirmation token for a set of planned item writes is tied to: the item
+ * versions they were planned against and the payloads. Warnings are included so that
+ * replaying a confirmed create (which now finds its own name taken) is rejected.
+ */
+export function getItemWriteBasis(plans: Array<{ restaurant: string; plan: ItemWritePlan }>) {
+  return plans.map(({ restaurant, plan }) => [
+    restaurant,
+    plan.baseUpdatedAt,
+    plan.payload,
+    plan.warnings,
+  ]);
+}
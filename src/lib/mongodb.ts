@@ -1,4 +1,5 @@
-import { MongoClient, Db, Collection } from "mongodb";
+import { MongoClient, Db, Collection, ObjectId } from "mongodb";
+import type { Receipt } from "./loyverse";
 
 const MONGODB_URI = process.env.MONGODB_URI;
 
@@ -20,6 +21,46 @@ export interface DocumentChunk {
   };
 }
 
+// Mirrored Loyverse receipt, keyed by restaurant + receipt_number
+export interface MirroredReceipt extends Receipt {
+  _id?: string;
+  restaurant: string;
+  synced_at: string;
+}
+
+// Per-restaurant receipt sync checkpoint
+export interface ReceiptSyncState {
+  _id: string; // restaurant id
+  synced_until: string; // every receipt updated before this is mirrored
+  backfilled_from: string; // receipts created before this are not mirrored
+  window_end?: string; // end of a window interrupted between pages
+  cursor?: string; // Loyverse page cursor to resume that window from
+  last_run_at: string;
+  last_run_count: number;
+}
+
+// Audit record of a stock adjustment, written before the change is sent to Loyverse
+export interface StockAdjustmentAudit {
+  _id?: ObjectId;
+  restaurant: string;
+  caller: string; // credential name of the MCP caller
+  reason: "waste" | "transfer" | "count_correction";
+  note: string | null;
+  changes: Array<{
+    variant_id: string;
+    item_name: string;
+    variant_name: string;
+    store_id: string;
+    store_name: string;
+    before: number;
+    after: number;
+  }>;
+  status: "pending" | "applied" | "failed";
+  error?: string;
+  requested_at: string;
+  completed_at?: string;
+}
+
 // Global connection cache for serverless environment
 let cachedClient: MongoClient | null = null;
 let cachedDb: Db | null = null;
@@ -47,6 +88,10 @@ async function connectToDatabase(): Promise<{ client: MongoClient; db: Db }> {
   return { client, db };
 }
 
+export function isMongoConfigured(): boolean {
+  return !!MONGODB_URI;
+}
+
 export async function getDb(): Promise<Db> {
   const { db } = await connectToDatabase();
   return db;
@@ -56,3 +101,18 @@ export async function getDocumentsCollection(): Promise<Collection<DocumentChunk
   const db = await getDb();
   return db.collection<DocumentChunk>("documents");
 }
+
+export async function getReceiptsCollection(): Promise<Collection<MirroredReceipt>> {
+  const db = await getDb();
+  return db.collection<MirroredReceipt>("receipts");
+}
+
+export async function getReceiptSyncCollection(): Promise<Collection<ReceiptSyncState>> {
+  const db = await getDb();
+  return db.collection<ReceiptSyncState>("receipt_sync");
+}
+
+export async function getStockAdjustmentsCollection(): Promise<Collection<StockAdjustmentAudit>> {
+  const db = await getDb();
+  return db.collection<StockAdjustmentAudit>("stock_adjustments");
+}
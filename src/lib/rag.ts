@@ -9,6 +9,7 @@ export interface SearchResult {
 
 export interface SearchFilters {
   restaurant?: string;
+  restaurants?: string[];
   csv_type?: "products" | "sales" | "inventory";
 }
 
@@ -37,6 +38,8 @@ export async function hybridSearch(
   const metadataFilter: Record<string, unknown> = {};
   if (filters.restaurant) {
     metadataFilter["metadata.restaurant"] = filters.restaurant;
+  } else if (filters.restaurants) {
+    metadataFilter["metadata.restaurant"] = { $in: filters.restaurants };
   }
   if (filters.csv_type) {
     metadataFilter["metadata.csv_type"] = filters.csv_type;
@@ -109,9 +112,13 @@ async function textSearch(
 
   // Add compound filter if we have metadata filters
   if (Object.keys(filter).length > 0) {
-    const filterClauses = Object.entries(filter).map(([path, value]) => ({
-      equals: { path, value },
-    }));
+    const filterClauses = Object.entries(filter).map(([path, value]) => {
+      const inFilter = value as { $in?: string[] };
+      if (inFilter && typeof inFilter === "object" && inFilter.$in) {
+        return { in: { path, value: inFilter.$in } };
+      }
+      return { equals: { path, value } };
+    });
 
     searchStage.compound = {
       must: [
@@ -207,20 +214,29 @@ export async function insertChunks(
 
 /**
  * Delete all chunks for a specific filename
+ * Optionally restricted to chunks belonging to the given restaurants
  */
-export async function deleteByFilename(filename: string): Promise<number> {
+export async function deleteByFilename(
+  filename: string,
+  restaurants?: string[]
+): Promise<number> {
   const collection = await getDocumentsCollection();
-  const result = await collection.deleteMany({ "metadata.filename": filename });
+  const filter: Record<string, unknown> = { "metadata.filename": filename };
+  if (restaurants) {
+    filter["metadata.restaurant"] = { $in: restaurants };
+  }
+  const result = await collection.deleteMany(filter);
   return result.deletedCount;
 }
 
 /**
  * List all unique documents (files) with their metadata
+ * Optionally restricted to documents belonging to the given restaurants
  */
-export async function listDocuments(): Promise<DocumentInfo[]> {
+export async function listDocuments(restaurants?: string[]): Promise<DocumentInfo[]> {
   const collection = await getDocumentsCollection();
 
-  const pipeline = [
+  const pipeline: object[] = [
     {
       $group: {
         _id: "$metadata.filename",
@@ -245,6 +261,10 @@ export async function listDocuments(): Promise<DocumentInfo[]> {
     },
   ];
 
+  if (restaurants) {
+    pipeline.unshift({ $match: { "metadata.restaurant": { $in: restaurants } } });
+  }
+
   const results = await collection.aggregate(pipeline).toArray();
 
   return results as unknown as DocumentInfo[];
@@ -0,0 +1,161 @@
+import { createHmac } from "crypto";
+
+/**
+ * How personal data is shown to callers without the "pii" scope:
+ * - mask: keep just enough to recognise a value (j***@example.com, ***1000, A. S.)
+ * - hash: replace with a stable keyed hash, so the same person can still be
+ *   matched across results without revealing who they are
+ */
+export type RedactionMode = "mask" | "hash";
+
+export type PiiKind = "email" | "phone" | "name";
+
+type PiiValue = string | null | undefined;
+
+export interface Redactor {
+  email<T extends PiiValue>(value: T): T | string;
+  phone<T extends PiiValue>(value: T): T | string;
+  name<T extends PiiValue>(value: T): T | string;
+}
+
+const REDACTION_MODES: RedactionMode[] = ["mask", "hash"];
+
+const PII_REDACTION = process.env.PII_REDACTION;
+const PII_HASH_SECRET = process.env.PII_HASH_SECRET;
+
+let cachedMode: RedactionMode | null = null;
+
+export function getRedactionMode(): RedactionMode {
+  if (cachedMode) {
+    return cachedMode;
+  }
+
+  const mode = (PII_REDACTION || "mask").trim().toLowerCase() as RedactionMode;
+  if (!REDACTION_MODES.includes(mode)) {
+    console.warn(
+      `Warning: unknown PII_REDACTION "${PII_REDACTION}", expected one of ${REDACTION_MODES.join(", ")}. Masking instead.`
+    );
+    cachedMode = "mask";
+  } else {
+    if (mode === "hash" && !PII_HASH_SECRET) {
+      // An unkeyed hash of a name or phone number can be reversed by guessing
+      console.warn(
+        "Warning: PII_REDACTION is hash but PII_HASH_SECRET environment variable not set. Masking instead."
+      );
+      cachedMode = "mask";
+    } else {
+      cachedMode = mode;
+    }
+  }
+  return cachedMode;
+}
+
+/**
+ * Normalise a value so that formatting differences hash the same
+ * (email case, phone separators and country prefix, name spacing)
+ */
+function normalize(value: string, kind: PiiKind): string {
+  switch (kind) {
+    case "email":
+      return value.trim().toLowerCase();
+    case "phone":
+      return value.replace(/\D/g, "").slice(-10);
+    case "name":
+      return value.trim().replace(/\s+/g, " ").toLowerCase();
+  }
+}
+
+function hashValue(value: string, kind: PiiKind, secret: string): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${kind}:${normalize(value, kind)}`)
+    .digest("hex");
+  return `${kind}#${digest.slice(0, 12)}`;
+}
+
+function maskValue(value: string, kind: PiiKind): string {
+  switch (kind) {
+    case "email": {
+      const [local, domain] = value.trim().split("@");
+      return domain ? `${local.charAt(0)}***@${domain}` : "***";
+    }
+    case "phone": {
+      const digits = value.replace(/\D/g, "");
+      return digits.length > 4 ? `***${digits.slice(-4)}` : "***";
+    }
+    case "name":
+      // Initials only, e.g. "Ana Santos" -> "A. S.", "Ana" -> "A."
+      return value
+        .trim()
+        .split(/\s+/)
+        .map((part) => `${part.charAt(0).toUpperCase()}.`)
+        .join(" ");
+  }
+}
+
+/**
+ * Redact one personal value with the configured mode. Empty values pass through.
+ * Hashing needs PII_HASH_SECRET; without it values are masked.
+ */
+export function redactPii<T extends PiiValue>(
+  value: T,
+  kind: PiiKind,
+  mode: RedactionMode = getRedactionMode()
+): T | string {
+  if (!value || !value.trim()) return value;
+  return mode === "hash" && PII_HASH_SECRET
+    ? hashValue(value, kind, PII_HASH_SECRET)
+    : maskValue(value, kind);
+}
+
+const revealAll: Redactor = {
+  email: (value) => value,
+  phone: (value) => value,
+  name: (value) => value,
+};
+
+/**
+ * Redactor for a caller: full values when `reveal` is set (the caller holds the
+ * "pii" scope), otherwise every value is masked or hashed
+ */
+export function getRedactor(reveal: boolean): Redactor {
+  if (reveal) return revealAll;
+  return {
+    email: (value) => redactPii(value, "email"),
+    phone: (value) => redactPii(value, "phone"),
+    name: (value) => redactPii(value, "name"),
+  };
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Normalised CSV headers (lowercase, underscores) that hold personal data
+const PII_COLUMNS: Array<[RegExp, PiiKind | "contact"]> = [
+  [/e_?mail/, "email"],
+  [/phone|mobile|^cell|whatsapp/, "phone"],
+  [/contact/, "contact"],
+  [/^customer(_name)?$|^client(_name)?$|^guest(_name)?$/, "name"],
+];
+
+function getColumnKind(column: string, value: string): PiiKind | null {
+  const match = PII_COLUMNS.find(([pattern]) => pattern.test(column));
+  if (!match) return null;
+  if (match[1] === "contact") return value.includes("@") ? "email" : "phone";
+  return match[1];
+}
+
+/**
+ * Redact a parsed CSV row before it is embedded and stored: columns that hold
+ * customer names, emails and phone numbers are redacted, and email addresses
+ * are scrubbed from free-text values such as comments
+ */
+export function redactRow(row: Record<string, string>): Record<string, string> {
+  const mode = getRedactionMode();
+  return Object.fromEntries(
+    Object.entries(row).map(([column, value]) => {
+      if (!value) return [column, value];
+      const kind = getColumnKind(column, value);
+      if (kind) return [column, redactPii(value, kind, mode)];
+      return [column, value.replace(EMAIL_PATTERN, (email) => redactPii(email, "email", mode))];
+    })
+  );
+}
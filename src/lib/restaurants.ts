@@ -0,0 +1,75 @@
+import defaultRestaurants from "@/config/restaurants.json";
+
+/**
+ * A Loyverse account served by this MCP server.
+ * `token_env` names the environment variable holding its API token.
+ * `day_cutoff_hour` is the local hour a business day starts, so sales after
+ * midnight but before the cutoff count towards the previous day.
+ */
+export interface RestaurantConfig {
+  id: string;
+  name: string;
+  token_env: string;
+  currency: string;
+  timezone: string;
+  day_cutoff_hour: number;
+}
+
+export const DEFAULT_CURRENCY = "PHP";
+export const DEFAULT_TIMEZONE = "Asia/Manila";
+export const DEFAULT_DAY_CUTOFF_HOUR = 0;
+
+// Optional JSON override of src/config/restaurants.json, same shape
+const LOYVERSE_RESTAURANTS = process.env.LOYVERSE_RESTAURANTS;
+
+/**
+ * Load the restaurant registry from LOYVERSE_RESTAURANTS or the bundled config
+ */
+function loadRegistry(): RestaurantConfig[] {
+  const raw: Partial<RestaurantConfig>[] = LOYVERSE_RESTAURANTS
+    ? JSON.parse(LOYVERSE_RESTAURANTS)
+    : defaultRestaurants;
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error("Restaurant registry must be a non-empty JSON array");
+  }
+
+  const seen = new Set<string>();
+  return raw.map((entry) => {
+    if (!entry.id || !entry.name || !entry.token_env) {
+      throw new Error(
+        `Restaurant registry entry needs an id, name and token_env: ${JSON.stringify(entry)}`
+      );
+    }
+    if (seen.has(entry.id)) {
+      throw new Error(`Duplicate restaurant id in registry: ${entry.id}`);
+    }
+    seen.add(entry.id);
+
+    const cutoff = entry.day_cutoff_hour ?? DEFAULT_DAY_CUTOFF_HOUR;
+    if (!Number.isInteger(cutoff) || cutoff < 0 || cutoff > 23) {
+      throw new Error(
+        `Restaurant ${entry.id} has an invalid day_cutoff_hour (expected 0-23): ${cutoff}`
+      );
+    }
+
+    return {
+      id: entry.id,
+      name: entry.name,
+      token_env: entry.token_env,
+      currency: entry.currency || DEFAULT_CURRENCY,
+      timezone: entry.timezone || DEFAULT_TIMEZONE,
+      day_cutoff_hour: cutoff,
+    };
+  });
+}
+
+export const RESTAURANT_REGISTRY: RestaurantConfig[] = loadRegistry();
+
+export function getRestaurantConfig(id: string): RestaurantConfig {
+  const config = RESTAURANT_REGISTRY.find((r) => r.id === id);
+  if (!config) {
+    throw new Error(`Unknown restaurant: ${id}`);
+  }
+  return config;
+}
@@ -0,0 +1,411 @@
+import {
+  Receipt,
+  Restaurant,
+  loyverseGet,
+  loyverseGetAllWithMeta,
+} from "./loyverse";
+import {
+  MirroredReceipt,
+  getDb,
+  getReceiptsCollection,
+  getReceiptSyncCollection,
+  isMongoConfigured,
+} from "./mongodb";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back the first sync of a restaurant reaches
+const BACKFILL_DAYS = 90;
+
+// Receipts are pulled in updated_at windows, a page at a time; every page is checkpointed
+const SYNC_WINDOW_DAYS = 7;
+const SYNC_PAGE_SIZE = 250;
+
+// Leave headroom inside the 60s function maxDuration
+const SYNC_TIME_BUDGET_MS = 40000;
+
+// Live receipt fetches are split into day windows, fetched a few at a time
+const LIVE_WINDOW_MS = DAY_MS;
+const LIVE_WINDOW_CONCURRENCY = 4;
+const LIVE_FETCH_TIME_BUDGET_MS = 30000;
+const MAX_RECEIPTS = 20000;
+
+// The cron syncs every 30 minutes; a mirror further behind than this is not used
+const MAX_MIRROR_LAG_MS = 6 * 60 * 60 * 1000;
+
+export interface SyncResult {
+  restaurant: Restaurant;
+  receiptsSynced: number;
+  syncedUntil: string;
+  complete: boolean;
+}
+
+export interface SyncFailure {
+  restaurant: Restaurant;
+  error: string;
+}
+
+export interface ReceiptQuery {
+  created_at_min: string;
+  created_at_max: string;
+  store_id?: string;
+}
+
+/**
+ * Which part of the requested range the fetched receipts actually cover.
+ * When truncated, only receipts created between coveredFrom and coveredTo are included.
+ */
+export interface ReceiptCoverage {
+  requestedFrom: string;
+  requestedTo: string;
+  coveredFrom: string;
+  coveredTo: string;
+  truncated: boolean;
+  reason?: string;
+  mirrorUnavailable?: string; // why a configured receipt mirror was skipped for the live API
+}
+
+export interface ReceiptFetchResult {
+  receipts: Receipt[];
+  source: "mirror" | "live";
+  syncedUntil?: string;
+  coverage: ReceiptCoverage;
+}
+
+/**
+ * Mirror receipts for a restaurant into MongoDB, resuming from its updated_at checkpoint.
+ * The budget is checked before every page, so a large window can span several runs;
+ * the next run continues from the saved window and page cursor.
+ */
+export async function syncReceipts(
+  restaurant: Restaurant,
+  timeBudgetMs: number = SYNC_TIME_BUDGET_MS
+): Promise<SyncResult> {
+  const receipts = await getReceiptsCollection();
+  const syncState = await getReceiptSyncCollection();
+
+  await receipts.createIndex({ restaurant: 1, receipt_number: 1 }, { unique: true });
+  await receipts.createIndex({ restaurant: 1, created_at: 1 });
+
+  const startedAt = Date.now();
+  const now = new Date(startedAt);
+  const state = await syncState.findOne({ _id: restaurant });
+  const backfilledFrom =
+    state?.backfilled_from ||
+    new Date(startedAt - BACKFILL_DAYS * DAY_MS).toISOString();
+
+  const deadline = startedAt + timeBudgetMs;
+  let windowStart = new Date(state?.synced_until || backfilledFrom);
+  // A window interrupted between pages resumes from its saved page cursor
+  let windowEnd = state?.window_end ? new Date(state.window_end) : null;
+  let cursor = state?.cursor;
+  let count = 0;
+
+  while (windowStart < now && Date.now() < deadline) {
+    windowEnd ??= new Date(
+      Math.min(windowStart.getTime() + SYNC_WINDOW_DAYS * DAY_MS, now.getTime())
+    );
+
+    const params: Record<string, string> = {
+      updated_at_min: windowStart.toISOString(),
+      updated_at_max: windowEnd.toISOString(),
+      limit: String(SYNC_PAGE_SIZE),
+    };
+    if (cursor) params.cursor = cursor;
+
+    const page = await loyverseGet<{ receipts?: Receipt[]; cursor?: string }>(
+      restaurant,
+      "/receipts",
+      params
+    );
+    const batch = page.receipts || [];
+
+    if (batch.length > 0) {
+      const syncedAt = new Date().toISOString();
+      await receipts.bulkWrite(
+        batch.map((receipt) => ({
+          replaceOne: {
+            filter: { restaurant, receipt_number: receipt.receipt_number },
+            replacement: { ...receipt, restaurant, synced_at: syncedAt } as MirroredReceipt,
+            upsert: true,
+          },
+        }))
+      );
+    }
+
+    count += batch.length;
+    cursor = batch.length > 0 ? page.cursor : undefined;
+
+    const progress = {
+      backfilled_from: backfilledFrom,
+      last_run_at: new Date().toISOString(),
+      last_run_count: count,
+    };
+
+    if (cursor) {
+      // Mid-window: synced_until stays at the window start until every page is in
+      await syncState.updateOne(
+        { _id: restaurant },
+        {
+          $set: {
+            ...progress,
+            synced_until: windowStart.toISOString(),
+            window_end: windowEnd.toISOString(),
+            cursor,
+          },
+        },
+        { upsert: true }
+      );
+    } else {
+      windowStart = windowEnd;
+      windowEnd = null;
+      await syncState.updateOne(
+        { _id: restaurant },
+        {
+          $set: { ...progress, synced_until: windowStart.toISOString() },
+          $unset: { window_end: "", cursor: "" },
+        },
+        { upsert: true }
+      );
+    }
+  }
+
+  return {
+    restaurant,
+    receiptsSynced: count,
+    syncedUntil: windowStart.toISOString(),
+    complete: windowStart >= now,
+  };
+}
+
+/**
+ * Sync several restaurants one after another, sharing one time budget.
+ * A failing restaurant is reported and does not stop the others.
+ */
+export async function syncAllReceipts(
+  restaurants: Restaurant[]
+): Promise<Array<SyncResult | SyncFailure>> {
+  const results: Array<SyncResult | SyncFailure> = [];
+  const deadline = Date.now() + SYNC_TIME_BUDGET_MS;
+
+  for (const [i, restaurant] of restaurants.entries()) {
+    // Split what is left of the budget evenly over the remaining restaurants
+    const budget = (deadline - Date.now()) / (restaurants.length - i);
+
+    try {
+      results.push(await syncReceipts(restaurant, budget));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      results.push({ restaurant, error: message });
+    }
+  }
+
+  return results;
+}
+
+function formatLag(ms: number): string {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  return hours < 48 ? `${hours} hours` : `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Fetch receipts from the live API in day windows over `field`, newest first.
+ * Stops at the receipt cap or time budget and only keeps complete windows,
+ * so everything with `field` between coveredFrom and `to` is included.
+ */
+async function fetchReceiptWindows(
+  restaurant: Restaurant,
+  field: "created_at" | "updated_at",
+  from: number,
+  to: number,
+  params: Record<string, string>,
+  maxItems: number,
+  signal?: AbortSignal
+): Promise<{ receipts: Receipt[]; coveredFrom: number; reason?: string }> {
+  const startedAt = Date.now();
+
+  const windows: Array<{ from: number; to: number }> = [];
+  for (let end = to; end > from; end -= LIVE_WINDOW_MS) {
+    windows.push({ from: Math.max(end - LIVE_WINDOW_MS, from), to: end });
+  }
+
+  const byNumber = new Map<string, Receipt>();
+  let coveredFrom = to;
+  let reason: string | undefined;
+
+  for (let i = 0; i < windows.length && !reason; i += LIVE_WINDOW_CONCURRENCY) {
+    if (Date.now() - startedAt > LIVE_FETCH_TIME_BUDGET_MS) {
+      reason = "time budget exhausted";
+      break;
+    }
+
+    const remaining = maxItems - byNumber.size;
+    if (remaining <= 0) {
+      reason = `more than ${maxItems} receipts`;
+      break;
+    }
+
+    const batch = windows.slice(i, i + LIVE_WINDOW_CONCURRENCY);
+    const pages = await Promise.all(
+      batch.map((w) =>
+        loyverseGetAllWithMeta<Receipt>(
+          restaurant,
+          "/receipts",
+          "receipts",
+          {
+            ...params,
+            [`${field}_min`]: new Date(w.from).toISOString(),
+            [`${field}_max`]: new Date(w.to).toISOString(),
+          },
+          remaining,
+          signal
+        )
+      )
+    );
+
+    // Keep windows in order until the first one that did not fit
+    for (const [j, page] of pages.entries()) {
+      if (page.truncated || byNumber.size + page.data.length > maxItems) {
+        reason = `more than ${maxItems} receipts`;
+        break;
+      }
+      for (const receipt of page.data) byNumber.set(receipt.receipt_number, receipt);
+      coveredFrom = batch[j].from;
+    }
+  }
+
+  return { receipts: Array.from(byNumber.values()), coveredFrom, reason };
+}
+
+/**
+ * Fetch receipts created in a range from the live API, in created_at day windows
+ */
+async function fetchLiveReceipts(
+  restaurant: Restaurant,
+  query: ReceiptQuery,
+  maxItems: number,
+  signal?: AbortSignal
+): Promise<{ receipts: Receipt[]; coverage: ReceiptCoverage }> {
+  const params: Record<string, string> = {};
+  if (query.store_id) params.store_id = query.store_id;
+
+  const { receipts, coveredFrom, reason } = await fetchReceiptWindows(
+    restaurant,
+    "created_at",
+    new Date(query.created_at_min).getTime(),
+    new Date(query.created_at_max).getTime(),
+    params,
+    maxItems,
+    signal
+  );
+
+  return {
+    receipts,
+    coverage: {
+      requestedFrom: query.created_at_min,
+      requestedTo: query.created_at_max,
+      coveredFrom: new Date(coveredFrom).toISOString(),
+      coveredTo: query.created_at_max,
+      truncated: !!reason,
+      reason,
+    },
+  };
+}
+
+/**
+ * Get receipts created in a range, preferring the MongoDB mirror.
+ * Mirrored receipts are topped up with a live fetch of anything updated since the
+ * last sync, in updated_at day windows under the live fetch time budget. Falls back
+ * to the live API when the range predates the mirror, the mirror has fallen more
+ * than MAX_MIRROR_LAG_MS behind, MongoDB is not configured, or the connection
+ * fails; the last two are reported in coverage.mirrorUnavailable. Errors from a
+ * connected mirror are not swallowed.
+ */
+export async function fetchReceipts(
+  restaurant: Restaurant,
+  query: ReceiptQuery,
+  maxItems: number = MAX_RECEIPTS,
+  signal?: AbortSignal
+): Promise<ReceiptFetchResult> {
+  let mirrored: Receipt[] | null = null;
+  let syncedUntil: string | undefined;
+  let mirrorUnavailable: string | undefined;
+
+  let connected = false;
+  if (isMongoConfigured()) {
+    try {
+      await getDb();
+      connected = true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      mirrorUnavailable = `could not connect to MongoDB: ${message}`;
+    }
+  }
+
+  if (connected) {
+    const state = await (await getReceiptSyncCollection()).findOne({ _id: restaurant });
+
+    const lag = state ? Date.now() - new Date(state.synced_until).getTime() : 0;
+    if (state && lag > MAX_MIRROR_LAG_MS) {
+      mirrorUnavailable = `last synced ${formatLag(lag)} ago, the sync has fallen behind`;
+    } else if (state && state.backfilled_from <= query.created_at_min) {
+      const filter: Record<string, unknown> = {
+        restaurant,
+        created_at: { $gte: query.created_at_min, $lte: query.created_at_max },
+      };
+      if (query.store_id) filter.store_id = query.store_id;
+
+      const collection = await getReceiptsCollection();
+      mirrored = await collection
+        .find(filter, { projection: { _id: 0, restaurant: 0, synced_at: 0 } })
+        .sort({ created_at: -1 })
+        .toArray();
+      syncedUntil = state.synced_until;
+    }
+  }
+
+  if (!mirrored || !syncedUntil) {
+    const { receipts, coverage } = await fetchLiveReceipts(restaurant, query, maxItems, signal);
+    receipts.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return { receipts, source: "live", coverage: { ...coverage, mirrorUnavailable } };
+  }
+
+  // Live gap: receipts created or changed since the last sync
+  const gapParams: Record<string, string> = {
+    created_at_min: query.created_at_min,
+    created_at_max: query.created_at_max,
+  };
+  if (query.store_id) gapParams.store_id = query.store_id;
+
+  const gap = await fetchReceiptWindows(
+    restaurant,
+    "updated_at",
+    new Date(syncedUntil).getTime(),
+    Date.now(),
+    gapParams,
+    maxItems,
+    signal
+  );
+
+  const byNumber = new Map<string, Receipt>();
+  for (const receipt of mirrored) byNumber.set(receipt.receipt_number, receipt);
+  for (const receipt of gap.receipts) byNumber.set(receipt.receipt_number, receipt);
+
+  const receipts = Array.from(byNumber.values()).sort((a, b) =>
+    b.created_at.localeCompare(a.created_at)
+  );
+
+  return {
+    receipts,
+    source: "mirror",
+    syncedUntil,
+    coverage: {
+      requestedFrom: query.created_at_min,
+      requestedTo: query.created_at_max,
+      coveredFrom: query.created_at_min,
+      coveredTo: gap.reason ? syncedUntil : query.created_at_max,
+      truncated: !!gap.reason,
+      reason: gap.reason && `${gap.reason} fetching receipts changed since the last sync`,
+    },
+  };
+}
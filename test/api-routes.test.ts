@@ -0,0 +1,80 @@
+/**
+ * Authentication of the CSV upload and scheduled sync endpoints.
+ * Every request here is refused or has nothing to do before MongoDB or
+ * OpenAI would be needed.
+ */
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { NextRequest } from "next/server";
+
+const OWNER_TOKEN = "owner-test-token";
+const FIKA_TOKEN = "fika-test-token";
+const CRON_SECRET = "test-cron-secret";
+
+let upload: typeof import("../src/app/api/upload/route");
+let sync: typeof import("../src/app/api/sync/route");
+
+function uploadRequest(restaurant: string, token?: string): NextRequest {
+  const formData = new FormData();
+  formData.append("file", new File(["item_name,price,cost\nTea,85,20\n"], "menu.csv"));
+  formData.append("restaurant", restaurant);
+  return new NextRequest("http://localhost/api/upload", {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: formData,
+  });
+}
+
+function syncRequest(authorization?: string): NextRequest {
+  return new NextRequest("http://localhost/api/sync", {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+before(async () => {
+  Object.assign(process.env, {
+    CRON_SECRET,
+    MCP_AUTH_TOKENS: JSON.stringify([
+      { name: "owner", token: OWNER_TOKEN, restaurants: "*", scopes: ["write"] },
+      { name: "fika-manager", token: FIKA_TOKEN, restaurants: ["fika"] },
+    ]),
+  });
+
+  // The routes read their configuration on import
+  upload = await import("../src/app/api/upload/route");
+  sync = await import("../src/app/api/sync/route");
+});
+
+describe("upload", () => {
+  test("rejects requests without a known bearer token", async () => {
+    assert.equal((await upload.POST(uploadRequest("fika"))).status, 401);
+    assert.equal((await upload.POST(uploadRequest("fika", "wrong-token"))).status, 401);
+  });
+
+  test("rejects restaurants outside the credential", async () => {
+    const response = await upload.POST(uploadRequest("wildflower", FIKA_TOKEN));
+    assert.equal(response.status, 403);
+    assert.match((await response.json()).error, /not authorized for Wildflower/);
+  });
+
+  test("requires the write scope", async () => {
+    const response = await upload.POST(uploadRequest("fika", FIKA_TOKEN));
+    assert.equal(response.status, 403);
+    assert.match((await response.json()).error, /"write" scope/);
+  });
+});
+
+describe("sync", () => {
+  test("rejects a missing or wrong cron secret", async () => {
+    assert.equal((await sync.GET(syncRequest())).status, 401);
+    assert.equal((await sync.GET(syncRequest("Bearer wrong-secret"))).status, 401);
+    assert.equal((await sync.GET(syncRequest(CRON_SECRET))).status, 401);
+  });
+
+  test("accepts the cron secret as a bearer token", async () => {
+    // No Loyverse tokens are configured, so there is nothing to sync
+    const response = await sync.GET(syncRequest(`Bearer ${CRON_SECRET}`));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { success: true, results: [] });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Signing and checking of write confirmation tokens
+ */
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+
+let confirm: typeof import("../src/lib/confirm");
+
+const basis = ["fika", "2026-01-01T00:00:00.000Z", { item_name: "Iced Tea", price: 85 }];
+
+before(async () => {
+  process.env.CONFIRMATION_SECRET = "test-confirmation-secret";
+  confirm = await import("../src/lib/confirm");
+});
+
+test("accepts a fresh token for the same caller and plan", () => {
+  const token = confirm.getConfirmationToken("owner", basis);
+  assert.equal(confirm.checkConfirmationToken(token, "owner", basis), "valid");
+});
+
+test("rejects a token for a different plan or caller", () => {
+  const token = confirm.getConfirmationToken("owner", basis);
+  const changed = [...basis.slice(0, 2), { item_name: "Iced Tea", price: 90 }];
+  assert.equal(confirm.checkConfirmationToken(token, "owner", changed), "mismatch");
+  assert.equal(confirm.checkConfirmationToken(token, "fika-manager", basis), "mismatch");
+});
+
+test("rejects a token whose timestamp was edited", () => {
+  const issuedAt = Date.now() - 1000;
+  const [, signature] = confirm.getConfirmationToken("owner", basis, issuedAt).split(".");
+  assert.equal(
+    confirm.checkConfirmationToken(`${issuedAt + 1}.${signature}`, "owner", basis),
+    "mismatch"
+  );
+});
+
+test("rejects tokens computed without the secret", () => {
+  const unkeyed = createHash("sha256").update(JSON.stringify(basis)).digest("hex").slice(0, 16);
+  assert.equal(confirm.checkConfirmationToken(unkeyed, "owner", basis), "mismatch");
+  const stamped = `${Date.now()}.${unkeyed}`;
+  assert.equal(confirm.checkConfirmationToken(stamped, "owner", basis), "mismatch");
+  assert.equal(confirm.checkConfirmationToken(undefined, "owner", basis), "mismatch");
+});
+
+test("expires tokens after the TTL", () => {
+  const now = Date.now();
+  const issuedAt = now - confirm.CONFIRMATION_TOKEN_TTL_MS - 1;
+  const stale = confirm.getConfirmationToken("owner", basis, issuedAt);
+  assert.equal(confirm.checkConfirmationToken(stale, "owner", basis, now), "expired");
+
+  const future = confirm.getConfirmationToken("owner", basis, now + 60000);
+  assert.equal(confirm.checkConfirmationToken(future, "owner", basis, now), "expired");
+});
@@ -0,0 +1,304 @@
+/**
+ * Retry, backoff, concurrency, cancellation and error typing of the Loyverse
+ * client, against a local stub HTTP server
+ */
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+type StubHandler = (req: IncomingMessage, res: ServerResponse, attempt: number) => void;
+
+interface StubRequest {
+  method: string;
+  url: string;
+  at: number;
+}
+
+let server: Server;
+let handle: StubHandler;
+let requests: StubRequest[];
+let active = 0;
+let maxActive = 0;
+let loyverse: typeof import("../src/lib/loyverse");
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Respond with each status in turn, then 200 for every later attempt
+function sequence(...statuses: Array<number | [number, Record<string, string>]>): StubHandler {
+  return (_req, res, attempt) => {
+    const step = statuses[attempt];
+    if (step === undefined) {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+    const [status, headers] = Array.isArray(step) ? step : [step, {}];
+    sendJson(res, status, { errors: [{ code: "STUB" }] }, headers);
+  };
+}
+
+function gaps(): number[] {
+  return requests.slice(1).map((r, i) => r.at - requests[i].at);
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    const attempt = requests.length;
+    requests.push({ method: req.method || "GET", url: req.url || "/", at: Date.now() });
+    active++;
+    maxActive = Math.max(maxActive, active);
+    res.on("close", () => active--);
+    req.resume();
+    req.on("end", () => handle(req, res, attempt));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  process.env.LOYVERSE_API_BASE = `http://localhost:${port}/v1.0`;
+  process.env.LOYVERSE_TOKEN_FIKA = "stub-token";
+  loyverse = await import("../src/lib/loyverse");
+});
+
+beforeEach(() => {
+  requests = [];
+  active = 0;
+  maxActive = 0;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("reads", () => {
+  test("succeed without retrying", async () => {
+    handle = sequence();
+    const body = await loyverse.loyverseGet<{ ok: boolean }>("fika", "/merchant");
+    assert.deepEqual(body, { ok: true });
+    assert.equal(requests.length, 1);
+  });
+
+  test("send the restaurant's bearer token", async () => {
+    let authorization: string | undefined;
+    handle = (req, res) => {
+      authorization = req.headers.authorization;
+      sendJson(res, 200, {});
+    };
+    await loyverse.loyverseGet("fika", "/merchant");
+    assert.equal(authorization, "Bearer stub-token");
+  });
+
+  test("retry 5xx responses with growing backoff", async () => {
+    handle = sequence(500, 503);
+    const body = await loyverse.loyverseGet<{ ok: boolean }>("fika", "/merchant");
+    assert.deepEqual(body, { ok: true });
+    assert.equal(requests.length, 3);
+    const [first, second] = gaps();
+    assert.ok(first >= 450, `first backoff was ${first}ms`);
+    assert.ok(second >= 950, `second backoff was ${second}ms`);
+  });
+
+  test("give up on 5xx after the last retry with a typed error", async () => {
+    handle = sequence(500, 500, 500, 500, 500);
+    await assert.rejects(loyverse.loyverseGet("fika", "/merchant"), (error) => {
+      assert.ok(error instanceof loyverse.LoyverseApiError);
+      assert.equal(error.status, 500);
+      assert.equal(error.restaurant, "fika");
+      return true;
+    });
+    assert.equal(requests.length, 5);
+  });
+
+  test("honor Retry-After on 429", async () => {
+    handle = sequence([429, { "Retry-After": "1" }]);
+    await loyverse.loyverseGet("fika", "/merchant");
+    assert.equal(requests.length, 2);
+    assert.ok(gaps()[0] >= 950, `waited ${gaps()[0]}ms instead of the 1s Retry-After`);
+  });
+
+  test("raise LoyverseRateLimitError once 429 retries run out", async () => {
+    const limited: [number, Record<string, string>] = [429, { "Retry-After": "0" }];
+    handle = sequence(limited, limited, limited, limited, limited);
+    await assert.rejects(loyverse.loyverseGet("fika", "/merchant"), (error) => {
+      assert.ok(error instanceof loyverse.LoyverseRateLimitError);
+      assert.equal(error.status, 429);
+      assert.equal(error.retryAfterMs, 0);
+      return true;
+    });
+    assert.equal(requests.length, 5);
+  });
+
+  test("retry network failures", async () => {
+    handle = (req, res, attempt) => {
+      if (attempt === 0) {
+        req.socket.destroy();
+        return;
+      }
+      sendJson(res, 200, { ok: true });
+    };
+    const body = await loyverse.loyverseGet<{ ok: boolean }>("fika", "/merchant");
+    assert.deepEqual(body, { ok: true });
+    assert.equal(requests.length, 2);
+  });
+
+  for (const status of [401, 403]) {
+    test(`do not retry ${status} and raise LoyverseAuthError`, async () => {
+      handle = sequence(status);
+      await assert.rejects(loyverse.loyverseGet("fika", "/merchant"), (error) => {
+        assert.ok(error instanceof loyverse.LoyverseAuthError);
+        assert.equal(error.status, status);
+        assert.match(error.message, /LOYVERSE_TOKEN_FIKA/);
+        return true;
+      });
+      assert.equal(requests.length, 1);
+    });
+  }
+
+  test("do not retry 404 and raise LoyverseNotFoundError", async () => {
+    handle = sequence(404);
+    await assert.rejects(
+      loyverse.loyverseGet("fika", "/receipts/1-0000"),
+      loyverse.LoyverseNotFoundError
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  test("do not retry other 4xx responses", async () => {
+    handle = sequence(400);
+    await assert.rejects(loyverse.loyverseGet("fika", "/items"), (error) => {
+      assert.ok(error instanceof loyverse.LoyverseApiError);
+      assert.equal(error.status, 400);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+});
+
+describe("writes", () => {
+  test("are not retried on 5xx, since the write may have been applied", async () => {
+    handle = sequence(500);
+    await assert.rejects(loyverse.loyversePost("fika", "/items", { item_name: "Tea" }), (error) => {
+      assert.ok(error instanceof loyverse.LoyverseApiError);
+      assert.equal(error.status, 500);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].method, "POST");
+  });
+
+  test("are not retried on network failures", async () => {
+    handle = (req) => req.socket.destroy();
+    await assert.rejects(
+      loyverse.loyversePost("fika", "/items", { item_name: "Tea" }),
+      loyverse.LoyverseApiError
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  test("are retried on 429", async () => {
+    handle = sequence([429, { "Retry-After": "0" }]);
+    const body = await loyverse.loyversePost<{ ok: boolean }>("fika", "/items", {
+      item_name: "Tea",
+    });
+    assert.deepEqual(body, { ok: true });
+    assert.equal(requests.length, 2);
+  });
+});
+
+describe("pagination and concurrency", () => {
+  test("follow cursors and report truncation at maxItems", async () => {
+    handle = (req, res) => {
+      const url = new URL(req.url || "/", "http://localhost");
+      const page = Number(url.searchParams.get("cursor") || 0);
+      sendJson(res, 200, {
+        items: [{ id: `item-${page}` }],
+        ...(page < 4 ? { cursor: String(page + 1) } : {}),
+      });
+    };
+
+    const all = await loyverse.loyverseGetAllWithMeta("fika", "/items", "items", {}, 10);
+    assert.equal(all.data.length, 5);
+    assert.equal(all.truncated, false);
+
+    const capped = await loyverse.loyverseGetAllWithMeta("fika", "/items", "items", {}, 2);
+    assert.equal(capped.data.length, 2);
+    assert.equal(capped.truncated, true);
+  });
+
+  test("cap concurrent requests per token", async () => {
+    handle = (_req, res) => setTimeout(() => sendJson(res, 200, {}), 100);
+    await Promise.all(Array.from({ length: 10 }, () => loyverse.loyverseGet("fika", "/merchant")));
+    assert.equal(requests.length, 10);
+    assert.equal(maxActive, 4);
+  });
+
+  test("free the token slot while backing off after a network failure", async () => {
+    handle = (req, res) => {
+      const dropped = requests.filter((r) => r.url.endsWith("/flaky")).length <= 4;
+      if (req.url?.endsWith("/flaky") && dropped) {
+        req.socket.destroy();
+        return;
+      }
+      sendJson(res, 200, {});
+    };
+
+    // Four requests take every slot, fail and back off for about 500ms
+    const flaky = Promise.all(
+      Array.from({ length: 4 }, () => loyverse.loyverseGet("fika", "/flaky"))
+    );
+    while (requests.length < 4) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    const startedAt = Date.now();
+    await loyverse.loyverseGet("fika", "/merchant");
+    const waited = Date.now() - startedAt;
+    assert.ok(waited < 300, `waited ${waited}ms for a slot held during backoff`);
+
+    await flaky;
+    assert.equal(requests.length, 9);
+  });
+});
+
+describe("fan-out deadline", () => {
+  test("aborts requests still running and frees their token slots", async () => {
+    // Hang every request until it is aborted
+    handle = () => {};
+    const { results, failed } = await loyverse.fanOutRestaurants(
+      ["fika"],
+      (restaurant, signal) =>
+        Promise.all(
+          Array.from({ length: 6 }, () => loyverse.loyverseGet(restaurant, "/merchant", {}, signal))
+        ),
+      200
+    );
+    assert.equal(results.length, 0);
+    assert.match(failed[0].error, /Timed out/);
+
+    // Four requests were in flight and two were waiting for a slot; none may linger
+    assert.equal(requests.length, 4);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(active, 0);
+
+    handle = sequence();
+    requests = [];
+    await Promise.all(Array.from({ length: 4 }, () => loyverse.loyverseGet("fika", "/merchant")));
+    assert.equal(requests.length, 4);
+  });
+
+  test("cancels a pending retry", async () => {
+    handle = sequence([429, { "Retry-After": "10" }]);
+    const startedAt = Date.now();
+    const { failed } = await loyverse.fanOutRestaurants(
+      ["fika"],
+      (restaurant, signal) => loyverse.loyverseGet(restaurant, "/merchant", {}, signal),
+      200
+    );
+    assert.match(failed[0].error, /Timed out/);
+    assert.ok(Date.now() - startedAt < 2000);
+    assert.equal(requests.length, 1);
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * Calls every registered MCP tool over the streamable HTTP transport against the
+ * mock Loyverse API, checking the markdown output and that structuredContent
+ * matches the tool's outputSchema.
+ *
+ * MongoDB and OpenAI are not configured here, so the tools that need them are
+ * expected to fail cleanly rather than return data.
+ */
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { AjvJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/ajv";
+import type { JsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/types.js";
+import { createMockLoyverseServer } from "../mock/loyverse-server.mjs";
+import defaultRestaurants from "../src/config/restaurants.json";
+
+const OWNER_TOKEN = "owner-test-token";
+const FIKA_TOKEN = "fika-test-token";
+
+interface ToolResult {
+  text: string;
+  structured: Record<string, unknown> | undefined;
+  isError: boolean;
+}
+
+let mockServer: Server;
+let handler: (request: Request) => Promise<Response>;
+const clients: Client[] = [];
+const validators = new Map<string, JsonSchemaValidator<unknown>>();
+const registeredTools: string[] = [];
+const calledTools = new Set<string>();
+
+async function connect(token: string): Promise<Client> {
+  const client = new Client({ name: "mcp-tools-test", version: "1.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(new URL("http://localhost/api/mcp"), {
+      fetch: (url, init) => handler(new Request(url, init)),
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    })
+  );
+  clients.push(client);
+  return client;
+}
+
+let owner: Client;
+let fikaManager: Client;
+
+/**
+ * Call a tool and check its result shape: text content always, and
+ * structuredContent matching the outputSchema unless the call failed
+ */
+async function callTool(
+  name: string,
+  args: Record<string, unknown> = {},
+  client: Client = owner
+): Promise<ToolResult> {
+  calledTools.add(name);
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as Array<{ type: string; text?: string }>;
+  const text = content
+    .filter((c) => c.type === "text")
+    .map((c) => c.text)
+    .join("\n");
+  assert.ok(text.length > 0, `${name} returned no text`);
+
+  const structured = result.structuredContent as Record<string, unknown> | undefined;
+  if (!result.isError) {
+    assert.ok(structured, `${name} returned no structuredContent`);
+    const validation = validators.get(name)!(structured);
+    assert.ok(validation.valid, `${name} structuredContent: ${validation.errorMessage}`);
+  }
+
+  return { text, structured, isError: !!result.isError };
+}
+
+async function expectOk(name: string, args: Record<string, unknown> = {}, client?: Client) {
+  const result = await callTool(name, args, client);
+  assert.equal(result.isError, false, `${name} failed: ${result.text}`);
+  return result;
+}
+
+before(async () => {
+  mockServer = createMockLoyverseServer();
+  await new Promise<void>((resolve) => mockServer.listen(0, resolve));
+  const { port } = mockServer.address() as AddressInfo;
+
+  Object.assign(process.env, {
+    LOYVERSE_API_BASE: `http://localhost:${port}/v1.0`,
+    LOYVERSE_TOKEN_HARVEYS_WINGS: "wings",
+    LOYVERSE_TOKEN_BAKUGO_RAMEN: "ramen",
+    LOYVERSE_TOKEN_WILDFLOWER: "wild",
+    LOYVERSE_TOKEN_FIKA: "fika",
+    // Rejected by the mock, to exercise per-restaurant failures
+    LOYVERSE_TOKEN_HARVEYS_CHICKEN: "invalid-chicken",
+    // A second currency, so multi-restaurant tools must not add up mixed money
+    LOYVERSE_RESTAURANTS: JSON.stringify(
+      defaultRestaurants.map((r) => (r.id === "wildflower" ? { ...r, currency: "SGD" } : r))
+    ),
+    CONFIRMATION_SECRET: "test-confirmation-secret",
+    MCP_AUTH_TOKENS: JSON.stringify([
+      { name: "owner", token: OWNER_TOKEN, restaurants: "*", scopes: ["write", "pii"] },
+      { name: "fika-manager", token: FIKA_TOKEN, restaurants: ["fika"] },
+    ]),
+  });
+
+  // The route reads its configuration on import
+  const route = await import("../src/app/api/[transport]/route");
+  handler = route.POST;
+
+  owner = await connect(OWNER_TOKEN);
+  fikaManager = await connect(FIKA_TOKEN);
+
+  const validator = new AjvJsonSchemaValidator();
+  const { tools } = await owner.listTools();
+  for (const tool of tools) {
+    registeredTools.push(tool.name);
+    assert.ok(tool.outputSchema, `${tool.name} has no outputSchema`);
+    validators.set(tool.name, validator.getValidator(tool.outputSchema));
+  }
+});
+
+after(async () => {
+  await Promise.all(clients.map((client) => client.close()));
+  mockServer.closeAllConnections();
+  await new Promise((resolve) => mockServer.close(resolve));
+});
+
+describe("account tools", () => {
+  test("loyverse_list_restaurants", async () => {
+    const { text, structured } = await expectOk("loyverse_list_restaurants");
+    assert.match(text, /Fika Cafe/);
+    assert.ok(Array.isArray(structured!.restaurants));
+  });
+
+  test("loyverse_get_stores", async () => {
+    const { text } = await expectOk("loyverse_get_stores", { restaurant: "fika" });
+    assert.match(text, /Main Branch/);
+    assert.match(text, /Mall Branch/);
+  });
+
+  test("loyverse_get_merchant", async () => {
+    const { text } = await expectOk("loyverse_get_merchant", { restaurant: "fika" });
+    assert.match(text, /Mock Merchant fika/);
+    assert.match(text, /owner@example\.com/);
+  });
+
+  test("loyverse_get_merchant redacts contact details without the pii scope", async () => {
+    const { text, structured } = await expectOk(
+      "loyverse_get_merchant",
+      { restaurant: "fika" },
+      fikaManager
+    );
+    assert.doesNotMatch(text, /owner@example\.com/);
+    assert.equal((structured!.merchant as { email: string }).email, "o***@example.com");
+  });
+
+  test("restaurants outside the credential are rejected", async () => {
+    const { text, isError } = await callTool(
+      "loyverse_get_stores",
+      { restaurant: "wildflower" },
+      fikaManager
+    );
+    assert.equal(isError, true);
+    assert.match(text, /Access denied/);
+  });
+
+  test("loyverse_list_employees", async () => {
+    const { text } = await expectOk("loyverse_list_employees", { restaurant: "fika" });
+    assert.match(text, /Ana Santos/);
+  });
+
+  test("loyverse_list_customers", async () => {
+    const { text, structured } = await expectOk("loyverse_list_customers", {
+      restaurant: "fika",
+      limit: 5,
+    });
+    assert.match(text, /Customer 1/);
+    assert.equal((structured!.customers as unknown[]).length, 5);
+
+    const { isError } = await callTool(
+      "loyverse_list_customers",
+      { restaurant: "fika", email: "customer2@example.com" },
+      fikaManager
+    );
+    assert.equal(isError, true);
+  });
+
+  test("loyverse_list_payment_types", async () => {
+    const { text } = await expectOk("loyverse_list_payment_types", { restaurant: "fika" });
+    assert.match(text, /GCash/);
+  });
+});
+
+describe("menu and inventory tools", () => {
+  test("loyverse_list_items", async () => {
+    const { text, structured } = await expectOk("loyverse_list_items", {
+      restaurant: "fika",
+      limit: 5,
+    });
+    assert.match(text, /Menu Items for Fika Cafe/);
+    assert.equal((structured!.items as unknown[]).length, 5);
+  });
+
+  test("loyverse_search_items", async () => {
+    const { text, structured } = await expectOk("loyverse_search_items", {
+      query: "korean garlic wngs",
+    });
+    assert.match(text, /Korean Garlic Wings/);
+    assert.equal((structured!.results as unknown[]).length, 4);
+    assert.equal((structured!.failed as unknown[]).length, 1);
+  });
+
+  test("loyverse_list_categories", async () => {
+    const { text } = await expectOk("loyverse_list_categories", { restaurant: "fika" });
+    assert.match(text, /Wings/);
+    assert.match(text, /Drinks/);
+  });
+
+  test("loyverse_get_inventory", async () => {
+    const { text, structured } = await expectOk("loyverse_get_inventory", { restaurant: "fika" });
+    assert.match(text, /Korean Garlic Wings/);
+    assert.equal(structured!.itemsTruncated, false);
+    assert.doesNotMatch(text, /Unknown variant/);
+  });
+
+  test("loyverse_reorder_suggestions", async () => {
+    const { text } = await expectOk("loyverse_reorder_suggestions", { restaurant: "fika" });
+    assert.match(text, /Reorder/);
+  });
+});
+
+describe("receipt and sales tools", () => {
+  test("loyverse_list_receipts and loyverse_get_receipt", async () => {
+    const list = await expectOk("loyverse_list_receipts", { restaurant: "fika", limit: 5 });
+    const receipts = list.structured!.receipts as Array<{ receipt_number: string }>;
+    assert.equal(receipts.length, 5);
+    assert.match(list.text, /Receipt #/);
+
+    const { text, structured } = await expectOk("loyverse_get_receipt", {
+      restaurant: "fika",
+      receipt_number: ` #${receipts[0].receipt_number}`,
+    });
+    assert.match(text, new RegExp(`## Receipt #${receipts[0].receipt_number}`));
+    assert.match(text, /### Payments/);
+    const receipt = structured!.receipt as { store_name: string; employee_name: string };
+    assert.ok(receipt.store_name);
+    assert.ok(receipt.employee_name);
+  });
+
+  test("loyverse_get_receipt reports unknown receipts", async () => {
+    const { text, isError } = await callTool("loyverse_get_receipt", {
+      restaurant: "fika",
+      receipt_number: "9-9999",
+    });
+    assert.equal(isError, true);
+    assert.match(text, /Not found/);
+  });
+
+  test("loyverse_get_receipt rejects receipt numbers that are not N-N", async () => {
+    for (const receipt_number of ["../items", "1-2?x=1", "12/34"]) {
+      const { text, isError } = await callTool("loyverse_get_receipt", {
+        restaurant: "fika",
+        receipt_number,
+      });
+      assert.equal(isError, true);
+      assert.match(text, /Expected a receipt number like 12-3456/);
+    }
+  });
+
+  test("loyverse_sales_summary", async () => {
+    const { text, structured } = await expectOk("loyverse_sales_summary", {
+      restaurant: "fika",
+      days: 7,
+      compare_to: "previous_period",
+    });
+    assert.match(text, /Net Sales/);
+    assert.ok(structured!.comparison);
+  });
+
+  test("loyverse_compare_restaurants", async () => {
+    const { text, structured } = await expectOk("loyverse_compare_restaurants", { days: 7 });
+    assert.match(text, /Restaurant Comparison/);
+    assert.match(text, /Harvey's Chicken/);
+    assert.equal((structured!.failed as unknown[]).length, 1);
+
+    // Wildflower reports in SGD, so there is no grand total, only one per currency
+    assert.equal(structured!.grandTotal, null);
+    const totals = structured!.totalsByCurrency as Array<{ currency: string; restaurants: number }>;
+    assert.deepEqual(
+      totals.map((t) => [t.currency, t.restaurants]),
+      [
+        ["PHP", 3],
+        ["SGD", 1],
+      ]
+    );
+    assert.match(text, /\| Wildflower Tea House \| SGD /);
+  });
+
+  test("loyverse_compare_restaurants with one currency has grand totals", async () => {
+    const { structured } = await expectOk("loyverse_compare_restaurants", {
+      restaurants: ["fika", "bakugo_ramen"],
+      days: 7,
+    });
+    assert.equal(structured!.currency, "PHP");
+    assert.equal(typeof structured!.grandTotal, "number");
+  });
+
+  test("loyverse_item_sales", async () => {
+    const { text } = await expectOk("loyverse_item_sales", { restaurant: "fika", days: 7 });
+    assert.match(text, /Item/);
+  });
+
+  test("loyverse_sales_heatmap", async () => {
+    const { text, structured } = await expectOk("loyverse_sales_heatmap", {
+      restaurants: ["fika", "wildflower", "harveys_chicken"],
+      days: 14,
+    });
+    assert.match(text, /Heatmap/i);
+    assert.match(text, /Revenue:\*\* SGD /);
+    assert.match(text, /### Failed Restaurants\n- \*\*Harvey's Chicken:\*\*/);
+    assert.equal((structured!.groups as unknown[]).length, 2);
+  });
+
+  test("loyverse_payment_mix", async () => {
+    const { text } = await expectOk("loyverse_payment_mix", {
+      restaurants: ["fika"],
+      days: 7,
+    });
+    assert.match(text, /GCash/);
+  });
+
+  test("loyverse_payment_mix combines payments per currency", async () => {
+    const { text, structured } = await expectOk("loyverse_payment_mix", {
+      restaurants: ["fika", "wildflower"],
+      days: 7,
+    });
+    const combined = structured!.combined as Array<{ currency: string; restaurants: number }>;
+    assert.deepEqual(
+      combined.map((c) => [c.currency, c.restaurants]),
+      [
+        ["PHP", 1],
+        ["SGD", 1],
+      ]
+    );
+    assert.match(text, /### All SGD Restaurants\n\n[^#]*\| \*\*Total\*\* \| \*\*SGD /);
+    assert.doesNotMatch(text, /### All Restaurants/);
+  });
+
+  test("loyverse_refunds", async () => {
+    const { text } = await expectOk("loyverse_refunds", { restaurant: "fika", days: 30 });
+    assert.match(text, /Refund/);
+  });
+
+  test("loyverse_employee_performance", async () => {
+    const { text } = await expectOk("loyverse_employee_performance", {
+      restaurant: "fika",
+      days: 7,
+    });
+    assert.match(text, /Ana Santos|Ben Reyes|Carla Cruz/);
+  });
+
+  test("loyverse_forecast_demand", async () => {
+    const { text } = await expectOk("loyverse_forecast_demand", {
+      restaurants: ["fika"],
+      horizon_days: 3,
+    });
+    assert.match(text, /Demand Forecast/);
+  });
+
+  test("loyverse_sales_anomalies", async () => {
+    const { text } = await expectOk("loyverse_sales_anomalies", { restaurants: ["fika"] });
+    assert.match(text, /Anomal/);
+  });
+
+  test("loyverse_sync_receipts reports the missing mirror per restaurant", async () => {
+    const { structured } = await expectOk("loyverse_sync_receipts", { restaurant: "fika" });
+    const [result] = structured!.results as Array<{ error?: string }>;
+    assert.match(result.error || "", /MONGODB_URI/);
+  });
+});
+
+describe("customer tools", () => {
+  test("loyverse_customer_insights", async () => {
+    const { text } = await expectOk("loyverse_customer_insights", { restaurant: "fika" });
+    assert.match(text, /Customer Insights for Fika Cafe/);
+    assert.match(text, /Lapsed Regulars/);
+  });
+
+  test("loyverse_customer_history", async () => {
+    const { text, structured } = await expectOk("loyverse_customer_history", {
+      restaurant: "fika",
+      customer: "customer2@example.com",
+    });
+    assert.match(text, /Order History: Customer 2/);
+    assert.equal(
+      (structured!.customer as { email: string }).email,
+      "customer2@example.com"
+    );
+  });
+
+  test("loyverse_customer_history needs the pii scope to look up by contact details", async () => {
+    const denied = await callTool(
+      "loyverse_customer_history",
+      { restaurant: "fika", customer: "customer2@example.com" },
+      fikaManager
+    );
+    assert.equal(denied.isError, true);
+    assert.match(denied.text, /"pii" scope/);
+
+    const owned = await expectOk("loyverse_customer_history", {
+      restaurant: "fika",
+      customer: "customer2@example.com",
+    });
+    const { id } = owned.structured!.customer as { id: string };
+    const { structured } = await expectOk(
+      "loyverse_customer_history",
+      { restaurant: "fika", customer: id },
+      fikaManager
+    );
+    const customer = structured!.customer as { name: string; email: string };
+    assert.equal(customer.name, "C. 2.");
+    assert.equal(customer.email, "c***@example.com");
+  });
+});
+
+describe("write tools", () => {
+  test("loyverse_upsert_item dry run and confirm", async () => {
+    const args = { restaurant: "fika", item_name: "Test Pandan Latte", price: 180 };
+    const dryRun = await expectOk("loyverse_upsert_item", args);
+    assert.match(dryRun.text, /Dry run/);
+    const token = dryRun.structured!.confirmationToken as string;
+
+    const mismatch = await callTool("loyverse_upsert_item", {
+      ...args,
+      price: 190,
+      confirm: true,
+      confirmation_token: token,
+    });
+    assert.equal(mismatch.isError, true);
+    assert.match(mismatch.text, /does not match this change/);
+
+    const applied = await expectOk("loyverse_upsert_item", {
+      ...args,
+      confirm: true,
+      confirmation_token: token,
+    });
+    assert.equal(applied.structured!.applied, true);
+  });
+
+  test("loyverse_update_prices dry run", async () => {
+    const { text, structured } = await expectOk("loyverse_update_prices", {
+      restaurants: ["fika", "wildflower"],
+      item: "Iced Tea",
+      price: 85,
+    });
+    assert.match(text, /Dry run/);
+    assert.equal(structured!.applied, false);
+  });
+
+  test("loyverse_update_prices confirm applies in every restaurant", async () => {
+    const args = { restaurants: ["fika", "wildflower"], item: "Iced Tea", price: 95 };
+    const dryRun = await expectOk("loyverse_update_prices", args);
+    const { text, structured } = await expectOk("loyverse_update_prices", {
+      ...args,
+      confirm: true,
+      confirmation_token: dryRun.structured!.confirmationToken as string,
+    });
+    assert.match(text, /\*\*Applied\*\* in /);
+    assert.equal(structured!.applied, true);
+    assert.deepEqual(structured!.unknown, []);
+  });
+
+  test("loyverse_adjust_stock refuses to apply without an audit trail", async () => {
+    const stores = await expectOk("loyverse_get_stores", { restaurant: "fika" });
+    const [store] = stores.structured!.stores as Array<{ id: string }>;
+    const args = {
+      restaurant: "fika",
+      variant: "10000",
+      store_id: store.id,
+      reason: "count_correction",
+      counted: 50,
+    };
+
+    const dryRun = await expectOk("loyverse_adjust_stock", args);
+    assert.match(dryRun.text, /Dry run/);
+
+    const { text, isError } = await callTool("loyverse_adjust_stock", {
+      ...args,
+      confirm: true,
+      confirmation_token: dryRun.structured!.confirmationToken,
+    });
+    assert.equal(isError, true);
+    assert.match(text, /audit trail could not be written/);
+  });
+
+  test("loyverse_adjust_stock rejects waste that would raise stock", async () => {
+    const stores = await expectOk("loyverse_get_stores", { restaurant: "fika" });
+    const [store] = stores.structured!.stores as Array<{ id: string }>;
+    const { text, isError } = await callTool("loyverse_adjust_stock", {
+      restaurant: "fika",
+      variant: "10000",
+      store_id: store.id,
+      reason: "waste",
+      counted: 100000,
+    });
+    assert.equal(isError, true);
+    assert.match(text, /Waste removes stock: counted \(100000\) is above the current stock/);
+  });
+
+  test("write tools require the write scope", async () => {
+    const { text, isError } = await callTool(
+      "loyverse_update_prices",
+      { restaurants: ["fika"], item: "Iced Tea", price: 85 },
+      fikaManager
+    );
+    assert.equal(isError, true);
+    assert.match(text, /"write" scope/);
+  });
+});
+
+describe("knowledge base tools", () => {
+  test("rag_search fails cleanly without MongoDB", async () => {
+    const { isError } = await callTool("rag_search", { query: "wings price" });
+    assert.equal(isError, true);
+  });
+
+  test("rag_list_documents fails cleanly without MongoDB", async () => {
+    const { isError } = await callTool("rag_list_documents");
+    assert.equal(isError, true);
+  });
+
+  test("rag_delete_document fails cleanly without MongoDB", async () => {
+    const { isError } = await callTool("rag_delete_document", { filename: "menu.csv" });
+    assert.equal(isError, true);
+  });
+});
+
+test("every registered tool is covered", () => {
+  const missing = registeredTools.filter((name) => !calledTools.has(name));
+  assert.deepEqual(missing, []);
+});
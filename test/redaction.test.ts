@@ -0,0 +1,30 @@
+/**
+ * Masking of personal data, and hash mode failing closed without a secret
+ */
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+
+let redaction: typeof import("../src/lib/redaction");
+
+before(async () => {
+  process.env.PII_REDACTION = "hash";
+  delete process.env.PII_HASH_SECRET;
+  redaction = await import("../src/lib/redaction");
+});
+
+test("hash mode without PII_HASH_SECRET masks instead", () => {
+  assert.equal(redaction.getRedactionMode(), "mask");
+  assert.equal(redaction.redactPii("ana@example.com", "email", "hash"), "a***@example.com");
+  assert.equal(redaction.redactPii("+63 917 555 1000", "phone", "hash"), "***1000");
+});
+
+test("names are reduced to initials, single-word names included", () => {
+  assert.equal(redaction.redactPii("Ana Santos", "name"), "A. S.");
+  assert.equal(redaction.redactPii("  maria  de la cruz ", "name"), "M. D. L. C.");
+  assert.equal(redaction.redactPii("Ana", "name"), "A.");
+});
+
+test("empty values pass through", () => {
+  assert.equal(redaction.redactPii(null, "name"), null);
+  assert.equal(redaction.redactPii("", "email"), "");
+});